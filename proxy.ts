@@ -3,8 +3,74 @@ import { serve } from "https://deno.land/std@0.220.1/http/server.ts";
 
 // 配置
 let TARGET_URL = Deno.env.get("TARGET_URL") || "https://generativelanguage.googleapis.com"; // 默认反代目标
-const MAX_LOGS = 100; // 最大保存日志数量
+const MAX_LOGS = Number(Deno.env.get("MAX_LOGS")) || 100; // 最大保存日志数量
 const ENABLE_KV_STORAGE = true; // 是否启用KV存储，可以在不同实例间共享日志
+const ATTACHMENT_MAX_BYTES = Number(Deno.env.get("ATTACHMENT_MAX_BYTES")) || 100 * 1024 * 1024; // 日志附件（图片、音频等）的总大小上限，超出时删除最早的附件
+const LOG_BODY_MAX_BYTES = Math.min(Number(Deno.env.get("LOG_BODY_MAX_BYTES")) || 512 * 1024, 700 * 1024); // 每条日志的请求体和响应体总大小上限，KV单次原子操作不能超过800KB
+const LOG_LEVEL = (["debug", "info", "warn", "error"].find((level) => level === Deno.env.get("LOG_LEVEL")?.toLowerCase()) || "info") as LogLevel; // 日志级别，调试模式下的详细日志为 debug 级别
+const ADMIN_TOKEN = Deno.env.get("ADMIN_TOKEN") || ""; // 管理员口令，用于登录调试页面和调用管理API，留空则管理功能仅允许从本机直接访问
+const SESSION_SECRET = Deno.env.get("SESSION_SECRET") || ADMIN_TOKEN; // 会话Cookie签名密钥，默认与管理员口令相同
+const SESSION_COOKIE_NAME = "proxy_admin_session";
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000; // 登录会话有效期12小时
+const UPSTREAM_API_KEYS = parseListEnv("UPSTREAM_API_KEYS"); // 密钥池中的上游API密钥，逗号分隔
+const PROXY_ACCESS_TOKENS = parseListEnv("PROXY_ACCESS_TOKENS"); // 代理签发的访问令牌，客户端携带后使用密钥池中的密钥
+const KEY_ROTATION_STRATEGY: "round-robin" | "lru" = Deno.env.get("KEY_ROTATION_STRATEGY") === "lru" ? "lru" : "round-robin"; // 密钥轮换策略
+const KEY_COOLDOWN_MS = Number(Deno.env.get("KEY_COOLDOWN_MS")) || 60 * 1000; // 密钥触发限额后的冷却时间
+const REDACT_HEADERS = [ // 日志中需要脱敏的请求头，可通过 REDACT_HEADERS 追加
+  "authorization", "proxy-authorization", "x-goog-api-key", "x-api-key", "cookie", "set-cookie",
+  ...parseListEnv("REDACT_HEADERS"),
+].map((name) => name.toLowerCase());
+const REDACT_QUERY_PARAMS = [ // 日志中需要脱敏的查询参数，可通过 REDACT_QUERY_PARAMS 追加
+  "key", "api_key", "apikey", "access_token", "token",
+  ...parseListEnv("REDACT_QUERY_PARAMS"),
+].map((name) => name.toLowerCase());
+const REDACT_BODY_PATHS = parseListEnv("REDACT_BODY_PATHS"); // 请求/响应体中需要脱敏的字段，JSONPath格式，如 $.apiKey,$..password
+const REDACT_KEEP_CHARS = Number(Deno.env.get("REDACT_KEEP_CHARS") ?? "4"); // 脱敏后保留的末尾字符数
+const DEFAULT_RETRY_POLICY: RetryPolicy = { // 上游重试策略默认值，可在调试页面修改并保存到KV
+  maxAttempts: Number(Deno.env.get("RETRY_MAX_ATTEMPTS")) || 3, // 最大尝试次数（含首次请求）
+  baseDelayMs: Number(Deno.env.get("RETRY_BASE_DELAY_MS")) || 500, // 指数退避的基础等待时间
+  maxDelayMs: Number(Deno.env.get("RETRY_MAX_DELAY_MS")) || 10 * 1000, // 单次等待上限
+  jitter: true, // 在退避时间内随机等待，避免多个请求同时重试
+  respectRetryAfter: true, // 遵循上游返回的 Retry-After
+  retryOnStatus: [429, 500, 502, 503, 504],
+  retryOnNetworkError: true,
+  retryMethods: ["GET", "HEAD", "POST"],
+};
+const DEFAULT_UPSTREAM_TIMEOUTS: UpstreamTimeouts = { // 上游超时默认值（毫秒），0 表示不限制，路由可通过 timeouts 单独设置
+  connectMs: Number(Deno.env.get("UPSTREAM_CONNECT_TIMEOUT_MS") ?? "300000"), // 非流式接口要等回答全部生成后才返回响应头，不宜过短
+  firstByteMs: Number(Deno.env.get("UPSTREAM_FIRST_BYTE_TIMEOUT_MS") ?? "300000"),
+  idleMs: Number(Deno.env.get("UPSTREAM_IDLE_TIMEOUT_MS") ?? "120000"),
+};
+const IMAGE_URL_MAX_BYTES = Number(Deno.env.get("IMAGE_URL_MAX_BYTES")) || 20 * 1024 * 1024; // OpenAI 兼容接口下载远程图片的大小上限
+const IMAGE_URL_TIMEOUT_MS = Number(Deno.env.get("IMAGE_URL_TIMEOUT_MS")) || 15 * 1000; // 下载远程图片的超时时间
+const CACHE_TTL_MS = Number(Deno.env.get("CACHE_TTL_MS")) || 60 * 60 * 1000; // 响应缓存默认有效期1小时，路由可单独设置
+const CACHE_MAX_ENTRY_BYTES = Number(Deno.env.get("CACHE_MAX_ENTRY_BYTES")) || 4 * 1024 * 1024; // 超过该大小的响应不缓存
+const CACHE_MAX_BYTES = Number(Deno.env.get("CACHE_MAX_BYTES")) || 100 * 1024 * 1024; // 缓存总大小上限，超出时删除最早的条目
+const USAGE_RETENTION_DAYS = Number(Deno.env.get("USAGE_RETENTION_DAYS")) || 90; // 用量统计保留天数
+const DEFAULT_RATE_LIMITS: RateLimitConfig = { // 默认限流规则，0 表示不限制，可在调试页面修改并为单个IP或令牌单独配置
+  default: {
+    requestsPerMinute: Number(Deno.env.get("RATE_LIMIT_RPM")) || 0, // 每分钟请求数
+    tokensPerDay: Number(Deno.env.get("RATE_LIMIT_TOKENS_PER_DAY")) || 0, // 每日token数（按UTC日期）
+  },
+  overrides: {},
+};
+const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = { // 模型价格（美元/百万token），可通过 MODEL_PRICES 环境变量或调试页面修改
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-2.0-flash-lite": { input: 0.075, output: 0.3 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+};
+
+// 解析逗号分隔的环境变量
+function parseListEnv(name: string): string[] {
+  return (Deno.env.get(name) || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
 
 // 请求日志存储
 interface RequestLog {
@@ -13,17 +79,149 @@ interface RequestLog {
   method: string;
   url: string;
   path: string;
+  model?: string; // 从路径中解析出的模型名称
   headers: Record<string, string>;
   body: string;
   responseBody?: string;  // 新增：目标服务器响应内容
   responseStatus?: number; // 新增：响应状态码
+  streamStatus?: StreamOutcome; // 响应流的结束方式（完整结束 / 客户端取消 / 出错）
+  route?: string; // 匹配到的路由名称
+  attempts?: UpstreamAttempt[]; // 每次上游请求尝试的记录（含重试和切换密钥）
+  replayOf?: string; // 重放请求对应的原始日志ID
+  responseHeaders?: Record<string, string>; // 上游响应头（已脱敏）
+  timing?: RequestTiming; // 首字节耗时、总耗时和流量
+  imported?: boolean; // 是否为从 NDJSON 导入的日志
+  attachments?: AttachmentRef[]; // 请求体和响应体中引用的附件
+  cache?: CacheStatus; // 响应缓存命中情况，未使用缓存时为空
+  keyLabel?: string; // 客户端使用的虚拟密钥标签
+  requestedModel?: string; // 客户端请求的模型，使用别名时与实际转发的 model 不同
+  captureRule?: string; // 决定记录此日志的采集规则名称，按调试模式记录时为空
+  rewriteRules?: string[]; // 应用到此请求的改写规则名称
+  fallback?: FallbackStep[]; // 触发降级时依次尝试的模型和上游
   clientIP: string;
 }
 
+// 单次上游请求尝试
+interface UpstreamAttempt {
+  attempt: number; // 第几次尝试，从1开始
+  status?: number;
+  error?: string; // 网络错误信息
+  durationMs: number;
+  keyId?: string; // 使用的密钥池密钥指纹
+  retryDelayMs?: number; // 本次失败后等待多久再重试
+  timeout?: TimeoutPhase; // 本次尝试超时的阶段
+}
+
+// 上游超时（毫秒），0 表示不限制
+interface UpstreamTimeouts {
+  connectMs: number; // 建立连接并收到响应头（fetch 无法单独区分这两个阶段）
+  firstByteMs: number; // 收到响应头后等待第一个数据块
+  idleMs: number; // 响应体相邻两个数据块的最大间隔
+}
+
+type TimeoutPhase = "connect" | "firstByte" | "idle";
+
+// 模型价格，单位为美元/百万token
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// 上游重试策略
+interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  respectRetryAfter: boolean;
+  retryOnStatus: number[];
+  retryOnNetworkError: boolean;
+  retryMethods: string[];
+}
+
+// 限流规则，0 表示不限制
+interface RateLimitRule {
+  requestsPerMinute: number;
+  tokensPerDay: number;
+}
+
+// 限流配置：默认规则，以及按 ip:<客户端IP>、token:<令牌指纹> 或 key:<虚拟密钥ID> 单独配置的规则
+interface RateLimitConfig {
+  default: RateLimitRule;
+  overrides: Record<string, Partial<RateLimitRule>>;
+}
+
+// 上游路由规则：按路径前缀或Host匹配，转发到不同的目标
+interface ProxyRoute {
+  name: string;
+  pathPrefix?: string; // 路径前缀，如 /gemini
+  host?: string; // 匹配请求的 Host
+  target: string; // 上游基础URL
+  stripPrefix?: boolean; // 转发前是否去掉匹配的路径前缀，默认去掉
+  rewrite?: { from: string; to: string }; // 路径重写（正则替换）
+  headers?: Record<string, string>; // 转发时附加或覆盖的请求头
+  cache?: boolean; // 是否缓存 generateContent / countTokens 的响应
+  cacheTtlMs?: number; // 缓存有效期，默认使用 CACHE_TTL_MS
+  timeouts?: Partial<UpstreamTimeouts>; // 覆盖默认的上游超时
+}
+
+type StreamOutcome = "completed" | "cancelled" | "error";
+
+// ===== 结构化日志 =====
+// 每条日志输出为一行JSON，低于 LOG_LEVEL 的日志不输出
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LOG_LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Error 对象不能直接序列化，只保留名称、消息和调用栈
+function serializeLogField(value: unknown): unknown {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  return value;
+}
+
+function writeLog(level: LogLevel, message: string, fields: Record<string, unknown> = {}) {
+  if (LOG_LEVEL_ORDER[level] < LOG_LEVEL_ORDER[LOG_LEVEL]) return;
+  
+  const entry: Record<string, unknown> = { time: new Date().toISOString(), level, msg: message };
+  for (const [name, value] of Object.entries(fields)) {
+    if (value !== undefined) entry[name] = serializeLogField(value);
+  }
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    line = JSON.stringify({ time: entry.time, level, msg: message, error: "日志字段无法序列化" });
+  }
+  // warn 和 error 输出到 stderr
+  if (LOG_LEVEL_ORDER[level] >= LOG_LEVEL_ORDER.warn) {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => writeLog("debug", message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => writeLog("info", message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => writeLog("warn", message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => writeLog("error", message, fields),
+};
+
 // 全局状态
 const state = {
   isDebugMode: false, // 默认关闭调试模式
   logs: [] as RequestLog[], // 日志存储
+  routes: parseRoutesEnv(), // 路由表，未匹配任何路由时使用 TARGET_URL
+  retryPolicy: { ...DEFAULT_RETRY_POLICY }, // 上游重试策略
+  modelPrices: parseModelPricesEnv(), // 用于估算费用的模型价格表
+  rateLimits: { ...DEFAULT_RATE_LIMITS }, // 限流配置
+  captureRules: [] as CaptureRule[], // 日志采集规则
+  modelPolicy: { allow: [], deny: [], aliases: {} } as ModelPolicy, // 模型允许/禁止列表和别名
+  rewriteRules: [] as RewriteRule[], // 请求和响应的改写规则
+  fallbackChains: {} as Record<string, FallbackHop[]>, // 按模型配置的降级链
 };
 
 // 初始化KV存储
@@ -32,7 +230,7 @@ if (ENABLE_KV_STORAGE) {
   try {
     kv = await Deno.openKv();
   } catch (error) {
-    console.error("KV存储初始化失败:", error);
+    logger.error("KV存储初始化失败", { error });
   }
 }
 
@@ -40,148 +238,561 @@ if (ENABLE_KV_STORAGE) {
 const KV_EXPIRATION_MS = 12 * 60 * 60 * 1000; // 12小时
 const expireAt = new Date(Date.now() + KV_EXPIRATION_MS);
 
-// 添加分段日志函数
+// 调试模式下输出完整内容，整段内容作为一个字段写入同一行日志
 function logFullContent(prefix: string, content: string) {
   // 在非调试模式下不执行日志记录
   if (!state.isDebugMode) return;
   
-  // 使用更简洁的标记
-  console.log(`--- ${prefix} 开始 ---`);
+  logger.debug(prefix, { content, length: content.length });
+}
+
+// ===== 附件存储 =====
+// 日志中 inlineData 的 base64 内容按SHA-256去重存储，日志里只保留 [attachment:<hash>] 引用
+// 内存中保留一份便于快速读取，启用KV时同时分块写入KV，供其他实例读取；总大小超过 ATTACHMENT_MAX_BYTES 时删除最早的附件
+
+// 日志中引用的附件
+interface AttachmentRef {
+  hash: string;
+  mimeType: string;
+  size: number;
+}
+
+// KV中附件的元数据，内容分块存储在 ["attachmentChunks", hash, n]
+interface AttachmentMeta extends AttachmentRef {
+  chunks: number;
+  createdAt: number;
+}
+
+const memoryAttachments = new Map<string, { meta: AttachmentMeta; bytes: Uint8Array<ArrayBuffer> }>();
+
+// base64 与字节互转
+function base64ToBytes(data: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+// 保存附件，相同内容只保存一次
+async function putAttachment(mimeType: string, bytes: Uint8Array<ArrayBuffer>): Promise<AttachmentRef> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  const hash = Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+  const ref: AttachmentRef = { hash, mimeType, size: bytes.byteLength };
+  if (memoryAttachments.has(hash)) return ref;
   
-  // 每段最大长度
-  const chunkSize = 1000;
-  const chunks = Math.ceil(content.length / chunkSize);
+  const meta: AttachmentMeta = { ...ref, chunks: 0, createdAt: Date.now() };
+  memoryAttachments.set(hash, { meta, bytes });
   
-  for(let i = 0; i < chunks; i++) {
-    const start = i * chunkSize;
-    const end = Math.min((i + 1) * chunkSize, content.length);
-    console.log(`${prefix} [${i+1}/${chunks}]: ${content.slice(start, end)}`);
+  if (kv) {
+    try {
+      if (!(await kv.get(["attachments", hash])).value) {
+        meta.chunks = await writeKvChunks(["attachmentChunks", hash], bytes);
+        await kv.set(["attachments", hash], meta);
+      }
+    } catch (error) {
+      logger.error(`保存附件 ${hash} 到KV存储失败`, { error });
+      recordKvFailure("attachments");
+    }
   }
   
-  console.log(`--- ${prefix} 结束 (总长度: ${content.length}) ---`);
+  await enforceAttachmentSizeLimit();
+  return ref;
 }
 
-// 添加处理base64内容的函数
-function compressContent(content: string): string {
-  if (!content) return content;
+// 读取附件，先查内存再查KV
+async function getAttachment(hash: string): Promise<{ meta: AttachmentMeta; bytes: Uint8Array<ArrayBuffer> } | null> {
+  const memoryEntry = memoryAttachments.get(hash);
+  if (memoryEntry) return memoryEntry;
+  if (!kv) return null;
+  
+  const meta = (await kv.get<AttachmentMeta>(["attachments", hash])).value;
+  if (!meta) return null;
+  const bytes = await readKvChunks(["attachmentChunks", hash], meta.chunks);
+  return bytes ? { meta, bytes } : null;
+}
 
+// 附件总大小超过上限时，从最早保存的附件开始删除
+async function enforceAttachmentSizeLimit() {
+  let memorySize = 0;
+  for (const { meta } of memoryAttachments.values()) memorySize += meta.size;
+  // Map 按插入顺序遍历，最先遍历到的就是最早的附件
+  for (const [hash, { meta }] of memoryAttachments) {
+    if (memorySize <= ATTACHMENT_MAX_BYTES) break;
+    memoryAttachments.delete(hash);
+    memorySize -= meta.size;
+  }
+  
+  if (!kv) return;
   try {
-    // 检测并替换可能的base64段
-    // 匹配至少80个连续的base64字符
-    const base64Regex = /[A-Za-z0-9+/=]{80,}/g;
-    
-    // 替换为压缩提示，并计数
-    let compressedContent = content;
-    const matches = content.match(base64Regex) || [];
-    
-    if (matches.length > 0) {
-      // 替换每个匹配项
-      matches.forEach((match, index) => {
-        const placeholder = `[base64内容 #${index+1}, 长度: ${match.length}字符]`;
-        compressedContent = compressedContent.replace(match, placeholder);
-      });
-      
-      console.log(`已压缩 ${matches.length} 个base64片段，节省约 ${Math.floor(matches.join('').length / 1024)} KB`);
+    const metas: AttachmentMeta[] = [];
+    for await (const entry of kv.list<AttachmentMeta>({ prefix: ["attachments"] })) {
+      metas.push(entry.value);
+    }
+    let kvSize = metas.reduce((size, meta) => size + meta.size, 0);
+    for (const meta of metas.sort((a, b) => a.createdAt - b.createdAt)) {
+      if (kvSize <= ATTACHMENT_MAX_BYTES) break;
+      await kv.delete(["attachments", meta.hash]);
+      await deleteKvChunks(["attachmentChunks", meta.hash]);
+      kvSize -= meta.size;
     }
-    
-    return compressedContent;
   } catch (error) {
-    console.error("压缩内容时出错:", error);
-    return content; // 发生错误时返回原始内容
+    logger.error("清理附件失败", { error });
+  }
+}
+
+// 递归查找 inlineData，把 base64 内容替换为附件引用，返回是否有替换
+async function replaceInlineData(value: unknown, refs: AttachmentRef[]): Promise<boolean> {
+  if (!value || typeof value !== "object") return false;
+  let replaced = false;
+  
+  if (Array.isArray(value)) {
+    for (const item of value) {
+      if (await replaceInlineData(item, refs)) replaced = true;
+    }
+    return replaced;
+  }
+  
+  const record = value as Record<string, unknown>;
+  for (const [key, child] of Object.entries(record)) {
+    const inlineData = child as { mimeType?: string; mime_type?: string; data?: unknown } | null;
+    if ((key === "inlineData" || key === "inline_data") && typeof inlineData?.data === "string" &&
+        /^[A-Za-z0-9+/]+={0,2}$/.test(inlineData.data)) {
+      try {
+        const ref = await putAttachment(inlineData.mimeType || inlineData.mime_type || "application/octet-stream", base64ToBytes(inlineData.data));
+        inlineData.data = `[attachment:${ref.hash}]`;
+        if (!refs.some((item) => item.hash === ref.hash)) refs.push(ref);
+        replaced = true;
+      } catch (error) {
+        logger.error("提取附件失败", { error });
+      }
+    } else if (await replaceInlineData(child, refs)) {
+      replaced = true;
+    }
+  }
+  return replaced;
+}
+
+// 提取请求体或响应体中的附件，支持JSON、JSON数组和SSE格式；其他文本原样保留，大小由 truncateLogBodies 限制
+async function extractAttachments(body: string, refs: AttachmentRef[]): Promise<string> {
+  if (!body) return body;
+  
+  try {
+    const data = JSON.parse(body);
+    return await replaceInlineData(data, refs) ? JSON.stringify(data) : body;
+  } catch {
+    // 不是单个JSON，尝试按SSE格式处理
+  }
+  
+  if (!/^data:/m.test(body)) return body;
+  const lines: string[] = [];
+  for (const line of body.split("\n")) {
+    if (!line.startsWith("data:")) {
+      lines.push(line);
+      continue;
+    }
+    try {
+      const data = JSON.parse(line.slice(5));
+      lines.push(await replaceInlineData(data, refs) ? `data: ${JSON.stringify(data)}` : line);
+    } catch {
+      lines.push(line);
+    }
+  }
+  return lines.join("\n");
+}
+
+// 把附件引用还原为 base64 内容（用于重放），返回找不到的附件
+async function restoreAttachments(body: string): Promise<{ body: string; missing: string[] }> {
+  const missing: string[] = [];
+  const hashes = [...new Set([...body.matchAll(/\[attachment:([0-9a-f]{64})\]/g)].map((match) => match[1]))];
+  for (const hash of hashes) {
+    const attachment = await getAttachment(hash);
+    if (attachment) {
+      body = body.replaceAll(`[attachment:${hash}]`, bytesToBase64(attachment.bytes));
+    } else {
+      missing.push(hash);
+    }
+  }
+  return { body, missing };
+}
+
+// 处理附件API：GET /api/attachments/:hash
+async function handleAttachmentApi(request: Request, path: string): Promise<Response> {
+  const hash = path.slice("/api/attachments/".length);
+  if (request.method !== "GET" || !/^[0-9a-f]{64}$/.test(hash)) {
+    return new Response(JSON.stringify({ error: "未找到API路由" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  const attachment = await getAttachment(hash);
+  if (!attachment) {
+    return new Response(JSON.stringify({ error: "附件不存在或已被清理" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // 附件类型由客户端声明，不可信：只有图片（SVG除外）、音频和视频内联显示，其余一律作为二进制文件下载，
+  // 并禁止嗅探和执行脚本，避免在调试页面的源下以管理员身份运行上传的HTML
+  const mimeType = attachment.meta.mimeType.toLowerCase();
+  const inline = /^(image|audio|video)\/[\w.+-]+$/.test(mimeType) && mimeType !== "image/svg+xml";
+  const headers: Record<string, string> = {
+    "Content-Type": inline ? mimeType : "application/octet-stream",
+    "Content-Length": String(attachment.bytes.byteLength),
+    "X-Content-Type-Options": "nosniff",
+    "Content-Security-Policy": "sandbox",
+    // 内容由哈希确定，不会变化
+    "Cache-Control": "private, max-age=86400, immutable"
+  };
+  if (!inline) {
+    headers["Content-Disposition"] = `attachment; filename="${hash.slice(0, 12)}"`;
+  }
+  return new Response(attachment.bytes, { headers });
+}
+
+// ===== 敏感信息脱敏 =====
+// 日志在保存到内存、KV或打印之前，都要经过这里的脱敏处理
+
+type JsonPathSegment =
+  | { type: "child"; name: string }
+  | { type: "index"; index: number }
+  | { type: "wildcard" }
+  | { type: "recursive"; name: string };
+
+// 遮蔽敏感值，只保留末尾几位
+function maskValue(value: string): string {
+  if (REDACT_KEEP_CHARS <= 0 || value.length <= REDACT_KEEP_CHARS * 2) {
+    return "****";
+  }
+  return `****${value.slice(-REDACT_KEEP_CHARS)}`;
+}
+
+// 解析简化的JSONPath，支持 $.a.b、$['a']、[0]、[*]、.* 和 $..name
+function parseJsonPath(path: string): JsonPathSegment[] | null {
+  if (!path.startsWith("$")) return null;
+  
+  const segments: JsonPathSegment[] = [];
+  const tokenRegex = /\.\.([A-Za-z0-9_$-]+)|\.([A-Za-z0-9_$-]+|\*)|\[(\*|\d+|'[^']*'|"[^"]*")\]/gy;
+  tokenRegex.lastIndex = 1;
+  
+  while (tokenRegex.lastIndex < path.length) {
+    const match = tokenRegex.exec(path);
+    if (!match) return null;
+    
+    if (match[1]) {
+      segments.push({ type: "recursive", name: match[1] });
+    } else if (match[2]) {
+      segments.push(match[2] === "*" ? { type: "wildcard" } : { type: "child", name: match[2] });
+    } else if (match[3] === "*") {
+      segments.push({ type: "wildcard" });
+    } else if (/^\d+$/.test(match[3])) {
+      segments.push({ type: "index", index: Number(match[3]) });
+    } else {
+      segments.push({ type: "child", name: match[3].slice(1, -1) });
+    }
+  }
+  
+  return segments;
+}
+
+const REDACT_BODY_RULES = REDACT_BODY_PATHS
+  .map((path) => {
+    const segments = parseJsonPath(path);
+    if (!segments) logger.warn(`无效的脱敏JSONPath规则，已忽略: ${path}`);
+    return segments;
+  })
+  .filter((segments): segments is JsonPathSegment[] => segments !== null && segments.length > 0);
+
+// 找出JSONPath匹配到的所有父对象和键，供调用方读取或修改
+function resolveJsonPath(
+  root: unknown,
+  segments: JsonPathSegment[]
+): { parent: Record<string, unknown> | unknown[]; key: string | number }[] {
+  let current: { parent: Record<string, unknown> | unknown[] | null; key: string | number; value: unknown }[] = [
+    { parent: null, key: "$", value: root }
+  ];
+  
+  for (const segment of segments) {
+    const next: typeof current = [];
+    for (const { value } of current) {
+      if (value === null || typeof value !== "object") continue;
+      const container = value as Record<string, unknown>;
+      
+      if (segment.type === "child") {
+        if (!Array.isArray(value) && segment.name in container) {
+          next.push({ parent: container, key: segment.name, value: container[segment.name] });
+        }
+      } else if (segment.type === "index") {
+        if (Array.isArray(value) && segment.index < value.length) {
+          next.push({ parent: value, key: segment.index, value: value[segment.index] });
+        }
+      } else if (segment.type === "wildcard") {
+        if (Array.isArray(value)) {
+          value.forEach((item, index) => next.push({ parent: value, key: index, value: item }));
+        } else {
+          for (const [key, item] of Object.entries(container)) {
+            next.push({ parent: container, key, value: item });
+          }
+        }
+      } else {
+        // 递归查找所有层级中名为 name 的字段
+        const visit = (node: unknown) => {
+          if (node === null || typeof node !== "object") return;
+          if (Array.isArray(node)) {
+            node.forEach(visit);
+            return;
+          }
+          const record = node as Record<string, unknown>;
+          for (const [key, item] of Object.entries(record)) {
+            if (key === segment.name) {
+              next.push({ parent: record, key, value: item });
+            }
+            visit(item);
+          }
+        };
+        visit(value);
+      }
+    }
+    current = next;
+  }
+  
+  return current
+    .filter((item): item is { parent: Record<string, unknown> | unknown[]; key: string | number; value: unknown } => item.parent !== null)
+    .map(({ parent, key }) => ({ parent, key }));
+}
+
+// 对JSON对象应用所有字段脱敏规则（原地修改）
+function redactJsonValue(data: unknown) {
+  for (const rule of REDACT_BODY_RULES) {
+    for (const { parent, key } of resolveJsonPath(data, rule)) {
+      const container = parent as Record<string | number, unknown>;
+      const value = container[key];
+      container[key] = typeof value === "string" ? maskValue(value) : "[已脱敏]";
+    }
+  }
+}
+
+// 脱敏请求头
+function redactHeaders(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of headers.entries()) {
+    if (!REDACT_HEADERS.includes(name.toLowerCase())) {
+      result[name] = value;
+      continue;
+    }
+    // 保留认证方案（如 Bearer），只遮蔽凭证部分
+    const schemeMatch = value.match(/^(Bearer|Basic|Token)\s+(.+)$/i);
+    result[name] = schemeMatch ? `${schemeMatch[1]} ${maskValue(schemeMatch[2])}` : maskValue(value);
+  }
+  return result;
+}
+
+// 脱敏URL中的查询参数
+function redactUrl(rawUrl: string): string {
+  try {
+    const url = new URL(rawUrl);
+    let changed = false;
+    for (const [name, value] of url.searchParams.entries()) {
+      if (REDACT_QUERY_PARAMS.includes(name.toLowerCase())) {
+        url.searchParams.set(name, maskValue(value));
+        changed = true;
+      }
+    }
+    return changed ? url.toString() : rawUrl;
+  } catch {
+    return rawUrl;
   }
 }
 
-// 保存请求日志到内存或KV存储
-// 定义一个安全的KV存储大小限制 (Deno KV是64KB，我们留一些余量)
-const KV_VALUE_SIZE_LIMIT = 60 * 1024; // 60KB
+// 脱敏请求/响应体，支持JSON和SSE（逐行处理 data: 数据）
+function redactBody(body: string): string {
+  if (!body || REDACT_BODY_RULES.length === 0) return body;
+  
+  try {
+    const data = JSON.parse(body);
+    redactJsonValue(data);
+    return JSON.stringify(data);
+  } catch {
+    // 不是单个JSON，尝试按SSE格式处理
+  }
+  
+  if (!/^data:/m.test(body)) return body;
+  return body.split("\n").map((line) => {
+    if (!line.startsWith("data:")) return line;
+    try {
+      const data = JSON.parse(line.slice(5));
+      redactJsonValue(data);
+      return `data: ${JSON.stringify(data)}`;
+    } catch {
+      return line;
+    }
+  }).join("\n");
+}
+
+// 写入KV的日志条目：请求体和响应体不放在条目中，而是序列化后分块存储在 ["logBodies", id, n]
+type KvRequestLog = Omit<RequestLog, "body" | "responseBody"> & { bodyChunks: number };
 
-// 辅助函数：用于截断字符串
-function truncateString(str: string | undefined, maxLength: number): string | undefined {
-  if (!str || str.length <= maxLength) {
+// 字符串序列化为JSON后的UTF-8字节数，写入KV的是序列化后的内容，转义后可能比原文大得多
+function jsonByteLength(str: string): number {
+  return new TextEncoder().encode(JSON.stringify(str)).byteLength;
+}
+
+// 辅助函数：按序列化后的字节数截断字符串，截断提示也计入上限
+function truncateString(str: string | undefined, maxBytes: number): string | undefined {
+  if (!str || jsonByteLength(str) <= maxBytes) {
     return str;
   }
-  return str.substring(0, maxLength) + `... [内容已截断, 原长度: ${str.length}]`;
+  const suffix = `... [内容已截断, 原大小: ${new TextEncoder().encode(str).byteLength} 字节]`;
+  // 二分查找放得下的最长前缀
+  let low = 0;
+  let high = str.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (jsonByteLength(str.slice(0, mid) + suffix) <= maxBytes) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  // 不在代理对中间截断
+  if (low > 0 && /[\uD800-\uDBFF]/.test(str[low - 1])) low--;
+  return str.slice(0, low) + suffix;
+}
+
+// 把请求体和响应体序列化后的总大小限制在 LOG_BODY_MAX_BYTES 以内，各分一半，一方用不完的额度留给另一方
+function truncateLogBodies(body: string, responseBody: string | undefined): [string, string | undefined] {
+  const bodySize = jsonByteLength(body);
+  const responseSize = responseBody ? jsonByteLength(responseBody) : 0;
+  if (bodySize + responseSize <= LOG_BODY_MAX_BYTES) {
+    return [body, responseBody];
+  }
+  
+  const half = Math.floor(LOG_BODY_MAX_BYTES / 2);
+  const bodyMax = responseSize < half ? LOG_BODY_MAX_BYTES - responseSize : Math.max(half, LOG_BODY_MAX_BYTES - responseSize);
+  const responseMax = LOG_BODY_MAX_BYTES - Math.min(bodySize, bodyMax);
+  return [truncateString(body, bodyMax) || "", truncateString(responseBody, responseMax)];
 }
 
 
-// 保存请求日志到内存或KV存储
-async function saveRequestLog(
+// 生成日志ID
+function generateLogId(): string {
+  return `${Date.now()}-${Math.random().toString(36).substring(2, 15)}`;
+}
+
+// 创建日志条目：脱敏、提取附件并截断请求体和响应体
+async function createLogEntry(
   request: Request, 
   requestBody: string, 
   responseBody?: string,
-  responseStatus?: number
-) {
-  if (!state.isDebugMode) return null;
-  
-  const timestamp = Date.now();
-  const requestId = `${timestamp}-${Math.random().toString(36).substring(2, 15)}`;
+  responseStatus?: number,
+  extra: Partial<RequestLog> = {}
+): Promise<RequestLog> {
   const url = new URL(request.url);
   
-  const compressedRequestBody = compressContent(requestBody);
-  const compressedResponseBody = responseBody ? compressContent(responseBody) : undefined;
+  // 内存和KV中保存同样的内容，超过大小上限时两边都截断
+  const attachments: AttachmentRef[] = [];
+  const [compressedRequestBody, compressedResponseBody] = truncateLogBodies(
+    await extractAttachments(redactBody(requestBody), attachments),
+    responseBody ? await extractAttachments(redactBody(responseBody), attachments) : undefined
+  );
   
-  // 1. 创建完整的日志条目，用于保存在内存中
-  const fullLogEntry: RequestLog = {
-    id: requestId,
-    timestamp,
+  return {
+    id: extra.id || generateLogId(),
+    timestamp: Date.now(),
     method: request.method,
-    url: request.url,
+    url: redactUrl(request.url),
     path: url.pathname,
-    headers: Object.fromEntries(request.headers.entries()),
+    model: extractModelFromPath(url.pathname),
+    headers: redactHeaders(request.headers),
     body: compressedRequestBody,
     responseBody: compressedResponseBody,
     responseStatus,
-    clientIP: request.headers.get("x-forwarded-for") || "unknown"
+    clientIP: getClientIP(request),
+    attachments: attachments.length > 0 ? attachments : undefined,
+    ...extra
   };
+}
+
+// 保存请求日志到内存或KV存储（是否需要记录由调用方判断）
+async function saveRequestLog(
+  request: Request, 
+  requestBody: string, 
+  responseBody?: string,
+  responseStatus?: number,
+  extra: Partial<RequestLog> = {}
+) {
+  // 1. 创建完整的日志条目，用于保存在内存中
+  const fullLogEntry = await createLogEntry(request, requestBody, responseBody, responseStatus, extra);
+  await storeLogEntry(fullLogEntry);
+  return fullLogEntry.id;
+}
+
+// 把日志条目保存到内存和KV存储
+async function storeLogEntry(fullLogEntry: RequestLog) {
+  const requestId = fullLogEntry.id;
   
-  // 2. 总是先保存到内存
+  // 2. 总是先保存到内存，并推送给实时日志的订阅者
   state.logs.unshift(fullLogEntry);
   if (state.logs.length > MAX_LOGS) {
     state.logs = state.logs.slice(0, MAX_LOGS);
   }
+  publishLogEvent("log", fullLogEntry);
   
-  // 3. 如果启用了KV，准备一个可能被截断的副本进行存储
+  // 3. 如果启用了KV，条目和分块的请求/响应体在同一个原子操作中写入
   if (kv) {
     try {
-      // 创建一个用于KV存储的副本
-      const kvLogEntry = { ...fullLogEntry };
-
-      // 检查并截断 body 和 responseBody 以符合KV大小限制
-      // 我们大致估算，给其他字段留出2KB空间
-      const remainingSpace = KV_VALUE_SIZE_LIMIT - 2048;
-      const bodyMax = Math.floor(remainingSpace / 2);
-      const responseMax = Math.floor(remainingSpace / 2);
-
-      kvLogEntry.body = truncateString(kvLogEntry.body, bodyMax) || "";
-      kvLogEntry.responseBody = truncateString(kvLogEntry.responseBody, responseMax);
+      const { body, responseBody, ...logMeta } = fullLogEntry;
+      const bodyChunks = splitKvChunks(new TextEncoder().encode(JSON.stringify({ body, responseBody })));
+      const kvLogEntry: KvRequestLog = { ...logMeta, bodyChunks: bodyChunks.length };
 
       // 先获取现有的logIds
       const existingLogIds = await kv.get<string[]>(["logIds"]);
-      let newLogIds = [requestId, ...(existingLogIds?.value || [])].slice(0, MAX_LOGS);
+      const allLogIds = [requestId, ...(existingLogIds?.value || [])];
+      const newLogIds = allLogIds.slice(0, MAX_LOGS);
       
       // 使用原子操作来确保一致性
       const atomicOp = kv.atomic()
-        .set(["logs", requestId], kvLogEntry, { expireAt })
-        .set(["logIds"], newLogIds, { expireAt })
-        .set(["debugState"], { isDebugMode: true }, { expireAt });
+        .set(["logs", requestId], kvLogEntry, { expireIn: KV_EXPIRATION_MS })
+        .set(["logIds"], newLogIds, { expireIn: KV_EXPIRATION_MS })
+        .set(["debugState"], { isDebugMode: state.isDebugMode }, { expireIn: KV_EXPIRATION_MS });
+      bodyChunks.forEach((chunk, index) => {
+        atomicOp.set(["logBodies", requestId, index], chunk, { expireIn: KV_EXPIRATION_MS });
+      });
         
       const res = await atomicOp.commit();
 
       if (res.ok) {
-         console.log(`日志已保存到KV存储: ${requestId} (可能已截断), 当前总数: ${newLogIds.length}`);
+         logger.debug(`日志已保存到KV存储: ${requestId} (${bodyChunks.length} 个分块), 当前总数: ${newLogIds.length}`);
       } else {
          throw new Error("KV原子操作提交失败");
       }
+      
+      // 删除超出数量上限的旧日志
+      for (const id of allLogIds.slice(MAX_LOGS)) {
+        await kv.delete(["logs", id]);
+        await deleteKvChunks(["logBodies", id]);
+      }
 
     } catch (error) {
-      console.error(`保存日志 ${requestId} 到KV存储失败:`, error);
+      logger.error(`保存日志 ${requestId} 到KV存储失败`, { error });
+      recordKvFailure("logs");
       // 注意：即使KV失败，日志依然存在于内存中。
       // 这会导致不一致，下面的API修改将解决这个问题。
     }
   }
   
-  console.log(`保存请求日志: ${requestId}`);
-  return requestId;
+  logger.debug(`保存请求日志: ${requestId}`);
 }
 
 
@@ -195,19 +806,128 @@ async function getLogsFromKV(): Promise<RequestLog[]> {
     
     const logs: RequestLog[] = [];
     for (const id of logIds.value) {
-      const log = await kv.get<RequestLog>(["logs", id]);
-      if (log?.value) {
-        logs.push(log.value);
+      const log = await getLogFromKV(id);
+      if (log) {
+        logs.push(log);
       }
     }
     
     return logs;
   } catch (error) {
-    console.error("从KV存储获取日志失败:", error);
+    logger.error("从KV存储获取日志失败", { error });
+    recordKvFailure("logs");
     return [];
   }
 }
 
+// 从KV读取单条日志，并拼接分块存储的请求体和响应体
+async function getLogFromKV(id: string): Promise<RequestLog | null> {
+  const entry = await kv!.get<KvRequestLog | RequestLog>(["logs", id]);
+  if (!entry.value) return null;
+  // 旧版本写入的条目直接包含请求体
+  if (!("bodyChunks" in entry.value)) return entry.value;
+  
+  const { bodyChunks, ...logMeta } = entry.value;
+  const bytes = await readKvChunks(["logBodies", id], bodyChunks);
+  if (!bytes) {
+    return { ...logMeta, body: "[请求体分块缺失]", responseBody: "[响应体分块缺失]" };
+  }
+  const { body, responseBody } = JSON.parse(new TextDecoder().decode(bytes));
+  return { ...logMeta, body, responseBody };
+}
+
+const MODEL_PATH_PATTERN = /\/(models|tunedModels)\/([^/:]+)/; // 请求路径中的模型段，模型策略改写别名时也使用
+
+// 从请求路径中解析模型名称，如 /v1beta/models/gemini-2.5-flash:generateContent
+function extractModelFromPath(path: string): string | undefined {
+  const match = path.match(MODEL_PATH_PATTERN);
+  return match ? decodeURIComponent(match[2]) : undefined;
+}
+
+// 日志筛选条件
+interface LogFilter {
+  statusMin?: number;
+  statusMax?: number;
+  method?: string;
+  path?: string;
+  model?: string;
+  ip?: string;
+  since?: number;
+  until?: number;
+  query?: string; // 在请求体和响应体中全文搜索
+}
+
+// 解析时间参数，支持毫秒时间戳和ISO格式
+function parseTimeParam(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+  return Number.isNaN(time) ? undefined : time;
+}
+
+// 从查询参数解析日志筛选条件
+// status 支持 "4xx"、"404"、"400-499" 和 "error"（状态码 >= 400 或请求失败）
+function parseLogFilter(params: URLSearchParams): LogFilter {
+  const filter: LogFilter = {
+    method: params.get("method")?.toUpperCase() || undefined,
+    path: params.get("path") || undefined,
+    model: params.get("model")?.toLowerCase() || undefined,
+    ip: params.get("ip") || undefined,
+    since: parseTimeParam(params.get("since")),
+    until: parseTimeParam(params.get("until")),
+    query: params.get("q")?.toLowerCase() || undefined,
+  };
+  
+  const status = params.get("status")?.trim().toLowerCase();
+  if (status === "error") {
+    filter.statusMin = 400;
+  } else if (status && /^[1-5]xx$/.test(status)) {
+    filter.statusMin = Number(status[0]) * 100;
+    filter.statusMax = filter.statusMin + 99;
+  } else if (status && /^\d{3}-\d{3}$/.test(status)) {
+    [filter.statusMin, filter.statusMax] = status.split("-").map(Number);
+  } else if (status && /^\d{3}$/.test(status)) {
+    filter.statusMin = filter.statusMax = Number(status);
+  }
+  
+  return filter;
+}
+
+// 判断日志是否满足筛选条件
+function matchesLogFilter(log: RequestLog, filter: LogFilter): boolean {
+  if (filter.statusMin !== undefined || filter.statusMax !== undefined) {
+    // 没有状态码的日志（上游请求失败）视为错误
+    const status = log.responseStatus ?? 599;
+    if (filter.statusMin !== undefined && status < filter.statusMin) return false;
+    if (filter.statusMax !== undefined && status > filter.statusMax) return false;
+  }
+  if (filter.method && log.method !== filter.method) return false;
+  if (filter.path && !log.path.includes(filter.path)) return false;
+  if (filter.model) {
+    const model = (log.model ?? extractModelFromPath(log.path) ?? "").toLowerCase();
+    if (!model.includes(filter.model)) return false;
+  }
+  if (filter.ip && !log.clientIP.includes(filter.ip)) return false;
+  if (filter.since !== undefined && log.timestamp < filter.since) return false;
+  if (filter.until !== undefined && log.timestamp > filter.until) return false;
+  if (filter.query) {
+    const haystack = `${log.body}\n${log.responseBody || ""}`.toLowerCase();
+    if (!haystack.includes(filter.query)) return false;
+  }
+  return true;
+}
+
+// 按游标分页，游标为上一页最后一条日志的ID
+function paginateLogs(logs: RequestLog[], cursor: string | null, limit: number) {
+  let start = 0;
+  if (cursor) {
+    const index = logs.findIndex((log) => log.id === cursor);
+    start = index === -1 ? logs.length : index + 1;
+  }
+  const page = logs.slice(start, start + limit);
+  const nextCursor = start + limit < logs.length ? page[page.length - 1].id : null;
+  return { page, nextCursor };
+}
+
 // 清除所有请求日志
 async function clearAllRequestLogs(): Promise<boolean> {
   try {
@@ -225,6 +945,7 @@ async function clearAllRequestLogs(): Promise<boolean> {
         for await (const entry of logEntries) {
           await kv.delete(entry.key);
         }
+        await deleteKvChunks(["logBodies"]);
         
         // 更新调试状态，但保持isDebugMode的值不变
         await kv.set(["debugState"], {
@@ -232,41 +953,5046 @@ async function clearAllRequestLogs(): Promise<boolean> {
         }, { expireAt });
         
       } catch (error) {
-        console.error("KV操作失败:", error);
+        logger.error("KV操作失败", { error });
+        recordKvFailure("logs");
         return false;
       }
     }
     
     return true;
   } catch (error) {
-    console.error("清除请求日志失败:", error);
+    logger.error("清除请求日志失败", { error });
     return false;
   }
 }
 
-// 处理OPTIONS预检请求
-function handleOptionsRequest(): Response {
-  return new Response(null, {
-    status: 204,
-    headers: {
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS, PUT, PATCH",
-      "Access-Control-Allow-Headers": "Content-Type, Authorization, x-goog-api-key",
-      "Access-Control-Max-Age": "86400",
+// ===== 日志采集规则 =====
+
+type CaptureMode = "full" | "headers" | "none";
+
+// 日志采集规则：按顺序匹配，第一条满足全部条件的规则决定是否记录以及记录哪些内容
+interface CaptureRule {
+  name?: string;
+  mode: CaptureMode; // full 记录完整请求体和响应体，headers 只记录请求头、状态码和耗时，none 不记录
+  path?: string; // 路径通配符，* 匹配任意字符，如 /v1beta/models/*:streamGenerateContent
+  model?: string; // 模型通配符，如 gemini-2.5-*
+  status?: string[]; // 状态码条件，支持 "429"、"5xx" 和 "error"（状态码 >= 400 或上游请求失败）
+  clientIP?: string; // 客户端IP通配符，如 10.0.*
+  header?: string; // 请求头条件，如 "X-Debug-Capture: 1"；只写名称时只要求请求头存在
+  sampleRate?: number; // 采样百分比，未被采样的请求视为不匹配此规则，默认 100
+}
+
+// 请求发出前的采集计划，状态码条件要等上游响应后才能判断
+interface CapturePlan {
+  candidates: CaptureRule[]; // 除状态码以外条件都满足的规则，按原顺序排列
+  fallback: CaptureMode; // 没有规则命中时的采集方式：开启调试模式时完整记录，否则不记录
+}
+
+const HEADERS_ONLY_REQUEST_BODY = "[未记录请求体（采集规则只记录请求头）]";
+const HEADERS_ONLY_RESPONSE_BODY = "[未记录响应体（采集规则只记录请求头）]";
+
+// 通配符匹配，* 匹配任意字符，其余字符按原样比较
+function matchesWildcard(value: string, pattern: string): boolean {
+  const source = pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*");
+  return new RegExp(`^${source}$`).test(value);
+}
+
+// 匹配状态码条件，status 为空表示上游请求失败
+function matchesStatusPattern(pattern: string, status?: number): boolean {
+  if (pattern === "error") return status === undefined || status >= 400;
+  if (status === undefined) return false;
+  if (/^[1-5]xx$/.test(pattern)) return Math.floor(status / 100) === Number(pattern[0]);
+  return Number(pattern) === status;
+}
+
+// 校验采集规则列表
+function validateCaptureRules(input: unknown): CaptureRule[] {
+  if (!Array.isArray(input)) {
+    throw new Error("采集规则必须是数组");
+  }
+  
+  return input.map((item, index) => {
+    if (!item || typeof item !== "object") {
+      throw new Error(`第 ${index + 1} 条采集规则格式错误`);
+    }
+    const rule = item as CaptureRule;
+    const label = rule.name || `第 ${index + 1} 条采集规则`;
+    
+    if (!["full", "headers", "none"].includes(rule.mode)) {
+      throw new Error(`${label}: mode 必须是 full、headers 或 none`);
+    }
+    for (const field of ["path", "model", "clientIP", "header"] as const) {
+      if (rule[field] !== undefined && typeof rule[field] !== "string") {
+        throw new Error(`${label}: ${field} 必须是字符串`);
+      }
     }
+    if (rule.status !== undefined) {
+      if (!Array.isArray(rule.status) || rule.status.length === 0) {
+        throw new Error(`${label}: status 必须是非空数组`);
+      }
+      for (const pattern of rule.status) {
+        if (typeof pattern !== "string" || !/^(error|[1-5]xx|[1-5]\d\d)$/.test(pattern)) {
+          throw new Error(`${label}: 无效的状态码条件 ${pattern}`);
+        }
+      }
+    }
+    if (rule.sampleRate !== undefined && (typeof rule.sampleRate !== "number" || rule.sampleRate < 0 || rule.sampleRate > 100)) {
+      throw new Error(`${label}: sampleRate 必须在 0 到 100 之间`);
+    }
+    
+    return {
+      name: rule.name || `rule-${index + 1}`,
+      mode: rule.mode,
+      path: rule.path || undefined,
+      model: rule.model || undefined,
+      status: rule.status,
+      clientIP: rule.clientIP || undefined,
+      header: rule.header?.trim() || undefined,
+      sampleRate: rule.sampleRate,
+    };
   });
 }
 
-// HTML首页
-function getHtmlIndex(): string {
-  return `
-<!DOCTYPE html>
-<html lang="zh-CN">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>请求调试器</title>
-  <style>
+// 检查请求是否满足规则中除状态码以外的条件
+function matchesCaptureRequest(rule: CaptureRule, request: Request, path: string, model: string, clientIP: string): boolean {
+  if (rule.path && !matchesWildcard(path, rule.path)) return false;
+  if (rule.model && !matchesWildcard(model, rule.model)) return false;
+  if (rule.clientIP && !matchesWildcard(clientIP, rule.clientIP)) return false;
+  if (rule.header) {
+    const separator = rule.header.indexOf(":");
+    const name = separator === -1 ? rule.header : rule.header.slice(0, separator).trim();
+    const value = request.headers.get(name);
+    if (value === null) return false;
+    if (separator !== -1 && value.trim() !== rule.header.slice(separator + 1).trim()) return false;
+  }
+  return true;
+}
+
+// 请求发出前筛选可能命中的规则，采样也在这一步完成，保证同一请求只抽样一次
+function planCapture(request: Request, url: URL): CapturePlan {
+  const plan: CapturePlan = { candidates: [], fallback: state.isDebugMode ? "full" : "none" };
+  if (state.captureRules.length === 0) return plan;
+  
+  const model = extractModelFromPath(url.pathname) || "";
+  const clientIP = getClientIP(request);
+  for (const rule of state.captureRules) {
+    if (!matchesCaptureRequest(rule, request, url.pathname, model, clientIP)) continue;
+    if (rule.sampleRate !== undefined && Math.random() * 100 >= rule.sampleRate) continue;
+    plan.candidates.push(rule);
+    // 没有状态码条件的规则一定命中，后面的规则不会再用到
+    if (!rule.status) break;
+  }
+  return plan;
+}
+
+// 请求发出前需要做的准备：任一可能命中的结果需要完整记录时就要缓冲请求体
+function getCapturePreparation(plan: CapturePlan): CaptureMode {
+  const modes = plan.candidates.map((rule) => rule.mode);
+  const last = plan.candidates.at(-1);
+  if (!last || last.status) modes.push(plan.fallback);
+  if (modes.includes("full")) return "full";
+  return modes.includes("headers") ? "headers" : "none";
+}
+
+// 上游响应后确定最终采集方式，status 为空表示上游请求失败
+function resolveCaptureMode(plan: CapturePlan, status?: number): { mode: CaptureMode; rule?: string } {
+  const rule = plan.candidates.find((item) => !item.status || item.status.some((pattern) => matchesStatusPattern(pattern, status)));
+  return rule ? { mode: rule.mode, rule: rule.name } : { mode: plan.fallback };
+}
+
+// 处理采集规则API
+async function handleCaptureRulesApi(request: Request): Promise<Response> {
+  if (request.method === "GET") {
+    return new Response(JSON.stringify({ rules: state.captureRules }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "PUT") {
+    let rules: CaptureRule[];
+    try {
+      const requestData = await request.json();
+      rules = validateCaptureRules(requestData.rules);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    state.captureRules = rules;
+    if (kv) {
+      await kv.set(["proxyConfig", "captureRules"], { rules });
+    }
+    logger.info(`采集规则已更新，共 ${rules.length} 条规则`);
+    
+    return new Response(JSON.stringify({ success: true, rules }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 模型策略 =====
+
+// 模型策略：先按别名改写模型，再用改写后的模型检查禁止列表和允许列表
+interface ModelPolicy {
+  allow: string[]; // 允许的模型，支持 * 通配符，为空表示不限制
+  deny: string[]; // 禁止的模型，支持 * 通配符，优先于允许列表
+  aliases: Record<string, string>; // 模型别名，如 team-default → gemini-2.5-flash
+}
+
+// 校验模型策略
+function validateModelPolicy(input: unknown): ModelPolicy {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("模型策略必须是对象");
+  }
+  const policy = input as Partial<ModelPolicy>;
+  
+  for (const field of ["allow", "deny"] as const) {
+    if (policy[field] !== undefined && (!Array.isArray(policy[field]) || policy[field]!.some((item) => typeof item !== "string" || !item))) {
+      throw new Error(`${field} 必须是模型名称数组`);
+    }
+  }
+  const aliases = policy.aliases ?? {};
+  if (typeof aliases !== "object" || Array.isArray(aliases)) {
+    throw new Error("aliases 必须是对象，键为别名，值为实际模型");
+  }
+  for (const [alias, model] of Object.entries(aliases)) {
+    if (typeof model !== "string" || !model || /[/:]/.test(model)) {
+      throw new Error(`别名 ${alias} 对应的模型名称无效`);
+    }
+    if (aliases[model] !== undefined) {
+      throw new Error(`别名 ${alias} 指向了另一个别名 ${model}`);
+    }
+  }
+  
+  return {
+    allow: policy.allow ?? [],
+    deny: policy.deny ?? [],
+    aliases: { ...aliases },
+  };
+}
+
+// 检查模型是否允许使用
+function isModelAllowed(model: string): boolean {
+  const { allow, deny } = state.modelPolicy;
+  if (deny.some((pattern) => matchesWildcard(model, pattern))) return false;
+  return allow.length === 0 || allow.some((pattern) => matchesWildcard(model, pattern));
+}
+
+// 改写请求体中的 model 字段（如 countTokens 的 generateContentRequest.model），保留 models/ 前缀
+function rewriteModelInBody(text: string, from: string, to: string): string | null {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) return null;
+  
+  let changed = false;
+  const rewrite = (target: Record<string, unknown>) => {
+    if (typeof target.model !== "string") return;
+    const prefix = target.model.startsWith("models/") ? "models/" : "";
+    if (target.model.slice(prefix.length) === from) {
+      target.model = prefix + to;
+      changed = true;
+    }
+  };
+  rewrite(data);
+  const nested = data.generateContentRequest;
+  if (nested && typeof nested === "object" && !Array.isArray(nested)) {
+    rewrite(nested as Record<string, unknown>);
+  }
+  return changed ? JSON.stringify(data) : null;
+}
+
+// 按模型策略检查请求，使用别名时改写路径和请求体中的模型；模型被禁止时返回错误响应
+async function applyModelPolicy(request: Request, url: URL): Promise<{ request: Request; url: URL; requestedModel?: string } | Response> {
+  const requestedModel = extractModelFromPath(url.pathname);
+  if (!requestedModel) return { request, url };
+  
+  const model = state.modelPolicy.aliases[requestedModel] ?? requestedModel;
+  if (!isModelAllowed(model)) {
+    return geminiErrorResponse(403, `模型 ${model} 不允许通过此代理使用`, "PERMISSION_DENIED");
+  }
+  if (model === requestedModel) return { request, url, requestedModel };
+  
+  const rewrittenUrl = new URL(url);
+  rewrittenUrl.pathname = url.pathname.replace(MODEL_PATH_PATTERN, (_match, kind) => `/${kind}/${encodeURIComponent(model)}`);
+  
+  const headers = new Headers(request.headers);
+  let body: ArrayBuffer | string | null = null;
+  if (request.method !== "GET" && request.method !== "HEAD" && request.body) {
+    body = await request.arrayBuffer();
+    try {
+      body = rewriteModelInBody(new TextDecoder("utf-8", { fatal: true }).decode(body), requestedModel, model) ?? body;
+    } catch {
+      // 非文本请求体原样转发
+    }
+    headers.delete("content-length");
+  }
+  
+  logger.debug(`模型别名 ${requestedModel} 已改写为 ${model}`);
+  return {
+    request: new Request(rewrittenUrl, { method: request.method, headers, body, signal: request.signal }),
+    url: rewrittenUrl,
+    requestedModel,
+  };
+}
+
+// 处理模型策略API
+async function handleModelPolicyApi(request: Request): Promise<Response> {
+  if (request.method === "GET") {
+    return new Response(JSON.stringify({ policy: state.modelPolicy }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "PUT") {
+    let policy: ModelPolicy;
+    try {
+      const requestData = await request.json();
+      policy = validateModelPolicy(requestData.policy);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    state.modelPolicy = policy;
+    if (kv) {
+      await kv.set(["proxyConfig", "models"], { policy });
+    }
+    logger.info(`模型策略已更新: 允许 ${policy.allow.length} 条，禁止 ${policy.deny.length} 条，别名 ${Object.keys(policy.aliases).length} 个`);
+    
+    return new Response(JSON.stringify({ success: true, policy }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 改写规则 =====
+
+// 请求头或响应头的改写：set 添加或覆盖，remove 删除
+interface HeaderRewrite {
+  set?: Record<string, string>;
+  remove?: string[];
+}
+
+// JSON 请求体或响应体的改写，字段都用JSONPath表示
+interface BodyRewrite {
+  set?: Record<string, unknown>; // 覆盖字段，中间层级不存在时自动创建，如 $.generationConfig.temperature
+  setDefault?: Record<string, unknown>; // 只在字段不存在时写入，如默认的 $.safetySettings
+  remove?: string[]; // 删除字段，支持 [*]、.* 和 $..name
+}
+
+// 改写规则：所有匹配的规则按顺序依次应用
+interface RewriteRule {
+  name: string;
+  path?: string; // 路径通配符，如 /v1beta/models/*:generateContent
+  model?: string; // 模型通配符，匹配按模型策略改写后实际转发的模型
+  requestHeaders?: HeaderRewrite;
+  requestBody?: BodyRewrite;
+  responseHeaders?: HeaderRewrite;
+  responseBody?: BodyRewrite;
+}
+
+// 由代理和运行时维护的请求头，改写后会导致请求或响应损坏
+const REWRITE_PROTECTED_HEADERS = ["content-length", "transfer-encoding", "host", "connection"];
+// 改写路径中不允许出现的字段名，否则会写入 Object.prototype，影响进程中的所有对象
+const REWRITE_FORBIDDEN_FIELDS = ["__proto__", "constructor", "prototype"];
+
+// 判断JSONPath是否引用了会修改原型链的字段
+function hasForbiddenField(segments: JsonPathSegment[]): boolean {
+  return segments.some((segment) => "name" in segment && REWRITE_FORBIDDEN_FIELDS.includes(segment.name));
+}
+
+// 解析 set 和 setDefault 使用的字段路径，只支持逐级的字段名，如 $.generationConfig.temperature
+function parseFieldPath(path: string): string[] | null {
+  const segments = parseJsonPath(path);
+  if (!segments || segments.length === 0) return null;
+  const names: string[] = [];
+  for (const segment of segments) {
+    if (segment.type !== "child") return null;
+    names.push(segment.name);
+  }
+  return names;
+}
+
+// 校验请求头改写
+function validateHeaderRewrite(input: unknown, label: string): HeaderRewrite | undefined {
+  if (input === undefined) return undefined;
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error(`${label} 必须是对象`);
+  }
+  const rewrite = input as HeaderRewrite;
+  const set = rewrite.set ?? {};
+  if (!set || typeof set !== "object" || Array.isArray(set) || Object.values(set).some((value) => typeof value !== "string")) {
+    throw new Error(`${label}.set 必须是对象，值为字符串`);
+  }
+  const remove = rewrite.remove ?? [];
+  if (!Array.isArray(remove) || remove.some((name) => typeof name !== "string")) {
+    throw new Error(`${label}.remove 必须是请求头名称数组`);
+  }
+  for (const name of [...Object.keys(set), ...remove]) {
+    if (!/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(name)) {
+      throw new Error(`${label}: 无效的请求头名称 ${name}`);
+    }
+    if (REWRITE_PROTECTED_HEADERS.includes(name.toLowerCase())) {
+      throw new Error(`${label}: 不能改写 ${name}`);
+    }
+  }
+  return { set: { ...set }, remove: [...remove] };
+}
+
+// 校验请求体或响应体改写
+function validateBodyRewrite(input: unknown, label: string): BodyRewrite | undefined {
+  if (input === undefined) return undefined;
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error(`${label} 必须是对象`);
+  }
+  const rewrite = input as BodyRewrite;
+  for (const field of ["set", "setDefault"] as const) {
+    const values = rewrite[field] ?? {};
+    if (!values || typeof values !== "object" || Array.isArray(values)) {
+      throw new Error(`${label}.${field} 必须是对象，键为JSONPath`);
+    }
+    for (const path of Object.keys(values)) {
+      const names = parseFieldPath(path);
+      if (!names) {
+        throw new Error(`${label}.${field}: 路径 ${path} 只能由字段名组成，如 $.generationConfig.temperature`);
+      }
+      if (names.some((name) => REWRITE_FORBIDDEN_FIELDS.includes(name))) {
+        throw new Error(`${label}.${field}: 路径 ${path} 不能包含 ${REWRITE_FORBIDDEN_FIELDS.join("、")}`);
+      }
+    }
+  }
+  const remove = rewrite.remove ?? [];
+  if (!Array.isArray(remove)) {
+    throw new Error(`${label}.remove 必须是JSONPath数组`);
+  }
+  for (const path of remove) {
+    const segments = typeof path === "string" ? parseJsonPath(path) : null;
+    if (!segments || segments.length === 0) {
+      throw new Error(`${label}.remove: 无效的JSONPath ${path}`);
+    }
+    if (hasForbiddenField(segments)) {
+      throw new Error(`${label}.remove: 路径 ${path} 不能包含 ${REWRITE_FORBIDDEN_FIELDS.join("、")}`);
+    }
+  }
+  return { set: { ...rewrite.set }, setDefault: { ...rewrite.setDefault }, remove: [...remove] };
+}
+
+// 校验改写规则列表
+function validateRewriteRules(input: unknown): RewriteRule[] {
+  if (!Array.isArray(input)) {
+    throw new Error("改写规则必须是数组");
+  }
+  
+  return input.map((item, index) => {
+    if (!item || typeof item !== "object") {
+      throw new Error(`第 ${index + 1} 条改写规则格式错误`);
+    }
+    const rule = item as RewriteRule;
+    const label = rule.name || `第 ${index + 1} 条改写规则`;
+    
+    for (const field of ["name", "path", "model"] as const) {
+      if (rule[field] !== undefined && typeof rule[field] !== "string") {
+        throw new Error(`${label}: ${field} 必须是字符串`);
+      }
+    }
+    const validated: RewriteRule = {
+      name: rule.name || `rewrite-${index + 1}`,
+      path: rule.path || undefined,
+      model: rule.model || undefined,
+      requestHeaders: validateHeaderRewrite(rule.requestHeaders, `${label}: requestHeaders`),
+      requestBody: validateBodyRewrite(rule.requestBody, `${label}: requestBody`),
+      responseHeaders: validateHeaderRewrite(rule.responseHeaders, `${label}: responseHeaders`),
+      responseBody: validateBodyRewrite(rule.responseBody, `${label}: responseBody`),
+    };
+    if (!validated.requestHeaders && !validated.requestBody && !validated.responseHeaders && !validated.responseBody) {
+      throw new Error(`${label}: 至少需要 requestHeaders、requestBody、responseHeaders、responseBody 中的一项`);
+    }
+    return validated;
+  });
+}
+
+// 找出匹配路径和模型的改写规则
+function matchRewriteRules(rules: RewriteRule[], path: string, model: string): RewriteRule[] {
+  return rules.filter((rule) =>
+    (!rule.path || matchesWildcard(path, rule.path)) &&
+    (!rule.model || matchesWildcard(model, rule.model))
+  );
+}
+
+// 应用请求头改写（原地修改）
+function applyHeaderRewrite(headers: Headers, rewrite?: HeaderRewrite) {
+  if (!rewrite) return;
+  for (const [name, value] of Object.entries(rewrite.set ?? {})) {
+    headers.set(name, value);
+  }
+  for (const name of rewrite.remove ?? []) {
+    headers.delete(name);
+  }
+}
+
+// 按字段路径写入值，中间层级不存在时自动创建；overwrite 为 false 时字段已存在则跳过
+function setFieldValue(root: Record<string, unknown>, names: string[], value: unknown, overwrite: boolean) {
+  let container = root;
+  for (const name of names.slice(0, -1)) {
+    const next = Object.hasOwn(container, name) ? container[name] : undefined;
+    if (next === null || typeof next !== "object" || Array.isArray(next)) {
+      if (next !== undefined && !overwrite) return;
+      container[name] = {};
+    }
+    container = container[name] as Record<string, unknown>;
+  }
+  const last = names[names.length - 1];
+  if (!overwrite && Object.hasOwn(container, last)) return;
+  container[last] = structuredClone(value);
+}
+
+// 对JSON对象应用一条请求体或响应体改写（原地修改）
+function applyBodyRewrite(data: unknown, rewrite: BodyRewrite) {
+  if (data && typeof data === "object" && !Array.isArray(data)) {
+    const record = data as Record<string, unknown>;
+    for (const [path, value] of Object.entries(rewrite.set ?? {})) {
+      setFieldValue(record, parseFieldPath(path)!, value, true);
+    }
+    for (const [path, value] of Object.entries(rewrite.setDefault ?? {})) {
+      setFieldValue(record, parseFieldPath(path)!, value, false);
+    }
+  }
+  for (const path of rewrite.remove ?? []) {
+    // 倒序删除，避免删除数组元素后后面的下标错位
+    for (const { parent, key } of resolveJsonPath(data, parseJsonPath(path)!).reverse()) {
+      if (Array.isArray(parent)) {
+        parent.splice(key as number, 1);
+      } else {
+        delete parent[key as string];
+      }
+    }
+  }
+}
+
+// 改写JSON文本，不是JSON时返回 null；streamGenerateContent 不使用SSE时返回JSON数组，规则应用到每个元素
+function rewriteJsonText(text: string, rewrites: BodyRewrite[]): string | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  for (const item of Array.isArray(data) ? data : [data]) {
+    for (const rewrite of rewrites) {
+      applyBodyRewrite(item, rewrite);
+    }
+  }
+  return JSON.stringify(data);
+}
+
+// 改写SSE中的一行，只处理 data: 行，保留行尾的 \r
+function rewriteSseLine(line: string, rewrites: BodyRewrite[]): string {
+  if (!line.startsWith("data:")) return line;
+  const lineEnd = line.endsWith("\r") ? "\r" : "";
+  const rewritten = rewriteJsonText(line.slice(5, line.length - lineEnd.length), rewrites);
+  return rewritten === null ? line : `data: ${rewritten}${lineEnd}`;
+}
+
+// 改写JSON请求体，返回新的请求；没有请求体改写或请求体不是JSON时原样返回
+async function applyRequestRewrites(request: Request, rules: RewriteRule[]): Promise<Request> {
+  const rewrites = rules.map((rule) => rule.requestBody).filter((rewrite): rewrite is BodyRewrite => rewrite !== undefined);
+  if (rewrites.length === 0 || request.method === "GET" || request.method === "HEAD" || !request.body) {
+    return request;
+  }
+  
+  const buffer = await request.arrayBuffer();
+  let body: ArrayBuffer | string = buffer;
+  try {
+    body = rewriteJsonText(new TextDecoder("utf-8", { fatal: true }).decode(buffer), rewrites) ?? buffer;
+  } catch {
+    // 非文本请求体原样转发
+  }
+  const headers = new Headers(request.headers);
+  headers.delete("content-length");
+  return new Request(request.url, { method: request.method, headers, body, signal: request.signal });
+}
+
+// 改写上游响应的响应头和JSON响应体；SSE响应逐个事件改写，不影响流式传输
+function applyResponseRewrites(response: Response, rules: RewriteRule[]): Response {
+  const rewrites = rules.map((rule) => rule.responseBody).filter((rewrite): rewrite is BodyRewrite => rewrite !== undefined);
+  if (rewrites.length === 0 && !rules.some((rule) => rule.responseHeaders)) {
+    return response;
+  }
+  
+  const headers = new Headers(response.headers);
+  for (const rule of rules) {
+    applyHeaderRewrite(headers, rule.responseHeaders);
+  }
+  
+  let body = response.body;
+  const contentType = response.headers.get("content-type") || "";
+  const isEventStream = contentType.includes("text/event-stream");
+  if (body && rewrites.length > 0 && !response.headers.has("content-encoding") && (isEventStream || contentType.includes("json"))) {
+    let buffered = "";
+    body = body
+      .pipeThrough(new TextDecoderStream())
+      .pipeThrough(new TransformStream<string, string>({
+        transform(chunk, controller) {
+          buffered += chunk;
+          if (!isEventStream) return;
+          // SSE 按完整的行改写，最后一行可能还没收完，留到下一个数据块
+          const lines = buffered.split("\n");
+          buffered = lines.pop()!;
+          if (lines.length > 0) {
+            controller.enqueue(lines.map((line) => rewriteSseLine(line, rewrites) + "\n").join(""));
+          }
+        },
+        flush(controller) {
+          if (!buffered) return;
+          controller.enqueue(isEventStream ? rewriteSseLine(buffered, rewrites) : rewriteJsonText(buffered, rewrites) ?? buffered);
+        }
+      }))
+      .pipeThrough(new TextEncoderStream());
+    headers.delete("content-length");
+  }
+  
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
+
+// 处理改写规则API：GET/PUT /api/proxy/rewrite，POST /api/proxy/rewrite/test 用示例内容测试规则
+async function handleRewriteRulesApi(request: Request, path: string): Promise<Response> {
+  if (path === "/api/proxy/rewrite/test") {
+    if (request.method !== "POST") {
+      return new Response(JSON.stringify({ error: "不支持的方法" }), {
+        status: 405,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    let rules: RewriteRule[];
+    let direction: "request" | "response";
+    let samplePath: string;
+    let headers: Headers;
+    let body: string;
+    try {
+      const requestData = await request.json();
+      // 未提供 rules 时测试已保存的规则
+      rules = requestData.rules === undefined ? state.rewriteRules : validateRewriteRules(requestData.rules);
+      direction = requestData.direction === "response" ? "response" : "request";
+      samplePath = typeof requestData.path === "string" && requestData.path ? requestData.path : "/";
+      headers = new Headers(requestData.headers || {});
+      body = typeof requestData.body === "string" ? requestData.body : JSON.stringify(requestData.body ?? "");
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    const matched = matchRewriteRules(rules, samplePath, extractModelFromPath(samplePath) || "");
+    for (const rule of matched) {
+      applyHeaderRewrite(headers, direction === "request" ? rule.requestHeaders : rule.responseHeaders);
+    }
+    const rewrites = matched
+      .map((rule) => direction === "request" ? rule.requestBody : rule.responseBody)
+      .filter((rewrite): rewrite is BodyRewrite => rewrite !== undefined);
+    if (rewrites.length > 0) {
+      body = rewriteJsonText(body, rewrites) ?? body.split("\n").map((line) => rewriteSseLine(line, rewrites)).join("\n");
+    }
+    
+    return new Response(JSON.stringify({
+      matched: matched.map((rule) => rule.name),
+      headers: Object.fromEntries(headers.entries()),
+      body
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "GET") {
+    return new Response(JSON.stringify({ rules: state.rewriteRules }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "PUT") {
+    let rules: RewriteRule[];
+    try {
+      const requestData = await request.json();
+      rules = validateRewriteRules(requestData.rules);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    state.rewriteRules = rules;
+    if (kv) {
+      await kv.set(["proxyConfig", "rewrite"], { rules });
+    }
+    logger.info(`改写规则已更新: ${rules.length} 条规则`);
+    
+    return new Response(JSON.stringify({ success: true, rules }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 上游路由 =====
+
+// 从环境变量 PROXY_ROUTES（JSON数组）读取初始路由表
+function parseRoutesEnv(): ProxyRoute[] {
+  const raw = Deno.env.get("PROXY_ROUTES");
+  if (!raw) return [];
+  try {
+    return validateRoutes(JSON.parse(raw));
+  } catch (error) {
+    logger.warn("PROXY_ROUTES 环境变量无效，已忽略", { error });
+    return [];
+  }
+}
+
+// 校验并规范化路由表，格式错误时抛出异常
+function validateRoutes(input: unknown): ProxyRoute[] {
+  if (!Array.isArray(input)) {
+    throw new Error("路由表必须是数组");
+  }
+  
+  return input.map((item, index) => {
+    if (!item || typeof item !== "object") {
+      throw new Error(`第 ${index + 1} 条路由格式错误`);
+    }
+    const route = item as ProxyRoute;
+    const label = route.name || `第 ${index + 1} 条路由`;
+    
+    if (!route.pathPrefix && !route.host) {
+      throw new Error(`${label}: 必须指定 pathPrefix 或 host`);
+    }
+    if (route.pathPrefix && !route.pathPrefix.startsWith("/")) {
+      throw new Error(`${label}: pathPrefix 必须以 / 开头`);
+    }
+    try {
+      new URL(route.target);
+    } catch {
+      throw new Error(`${label}: 无效的目标URL ${route.target}`);
+    }
+    if (route.rewrite) {
+      try {
+        new RegExp(route.rewrite.from);
+      } catch {
+        throw new Error(`${label}: 无效的路径重写正则 ${route.rewrite.from}`);
+      }
+    }
+    if (route.headers && Object.values(route.headers).some((value) => typeof value !== "string")) {
+      throw new Error(`${label}: headers 的值必须是字符串`);
+    }
+    if (route.cacheTtlMs !== undefined && (typeof route.cacheTtlMs !== "number" || route.cacheTtlMs <= 0)) {
+      throw new Error(`${label}: cacheTtlMs 必须是正数`);
+    }
+    const timeouts = validateUpstreamTimeouts(route.timeouts, label);
+    
+    return {
+      name: route.name || `route-${index + 1}`,
+      pathPrefix: route.pathPrefix ? route.pathPrefix.replace(/\/+$/, "") || "/" : undefined,
+      host: route.host?.toLowerCase(),
+      target: route.target,
+      stripPrefix: route.stripPrefix !== false,
+      rewrite: route.rewrite,
+      headers: route.headers,
+      cache: route.cache === true,
+      cacheTtlMs: route.cacheTtlMs,
+      timeouts,
+    };
+  });
+}
+
+// 判断路径是否匹配路由前缀（按路径段匹配，/gemini 不匹配 /geminix）
+function matchesPathPrefix(path: string, prefix: string): boolean {
+  return prefix === "/" || path === prefix || path.startsWith(prefix + "/");
+}
+
+// 为请求选择路由并计算上游地址，未匹配时使用默认的 TARGET_URL
+function resolveRoute(request: Request, url: URL): { route: ProxyRoute | null; targetUrl: URL } {
+  const host = (request.headers.get("host") || url.host).toLowerCase();
+  const route = state.routes.find((item) =>
+    (!item.host || item.host === host) &&
+    (!item.pathPrefix || matchesPathPrefix(url.pathname, item.pathPrefix))
+  );
+  
+  if (!route) {
+    return { route: null, targetUrl: new URL(url.pathname + url.search, TARGET_URL) };
+  }
+  
+  let path = url.pathname;
+  if (route.pathPrefix && route.stripPrefix && route.pathPrefix !== "/") {
+    path = path.slice(route.pathPrefix.length) || "/";
+  }
+  if (route.rewrite) {
+    path = path.replace(new RegExp(route.rewrite.from), route.rewrite.to);
+  }
+  
+  // 保留目标URL中的基础路径，如 https://example.com/v1 + /chat → https://example.com/v1/chat
+  const base = route.target.replace(/\/+$/, "");
+  return { route, targetUrl: new URL(base + path + url.search) };
+}
+
+// 构造转发请求头，附加路由配置的请求头
+function buildUpstreamHeaders(request: Request, route: ProxyRoute | null): Headers {
+  const headers = new Headers(request.headers);
+  headers.delete("x-proxy-cache"); // 仅供代理使用的缓存控制头
+  for (const [name, value] of Object.entries(route?.headers || {})) {
+    headers.set(name, value);
+  }
+  return headers;
+}
+
+// 处理路由表API
+async function handleRoutesApi(request: Request): Promise<Response> {
+  if (request.method === "GET") {
+    return new Response(JSON.stringify({
+      routes: state.routes,
+      defaultTarget: TARGET_URL
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "PUT") {
+    let routes: ProxyRoute[];
+    try {
+      const requestData = await request.json();
+      routes = validateRoutes(requestData.routes);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    state.routes = routes;
+    if (kv) {
+      await kv.set(["proxyConfig", "routes"], { routes });
+    }
+    logger.info(`路由表已更新，共 ${routes.length} 条路由`);
+    
+    return new Response(JSON.stringify({ success: true, routes }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 上游密钥池 =====
+
+interface PoolKey {
+  id: string; // 密钥指纹，用于展示和删除，不暴露原始密钥
+  key: string;
+  source: "env" | "kv";
+  lastUsedAt: number;
+  cooldownUntil: number;
+  failures: number;
+}
+
+const keyPool = {
+  keys: [] as PoolKey[],
+  cursor: 0, // 轮询策略的当前位置
+};
+
+// 计算密钥指纹（SHA-256 前12位十六进制）
+async function fingerprintSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest)).slice(0, 6).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// 遮蔽密钥，只显示首尾几位
+function maskSecret(secret: string): string {
+  if (secret.length <= 8) return "****";
+  return `${secret.slice(0, 4)}...${secret.slice(-4)}`;
+}
+
+// 向密钥池添加密钥，已存在的密钥会被忽略
+async function addPoolKeys(keys: string[], source: PoolKey["source"]): Promise<number> {
+  let added = 0;
+  for (const key of keys) {
+    if (keyPool.keys.some((item) => item.key === key)) continue;
+    keyPool.keys.push({
+      id: await fingerprintSecret(key),
+      key,
+      source,
+      lastUsedAt: 0,
+      cooldownUntil: 0,
+      failures: 0,
+    });
+    added++;
+  }
+  return added;
+}
+
+// 将通过管理API添加的密钥保存到KV，重启后依然有效
+async function persistKeyPool() {
+  if (!kv) return;
+  const keys = keyPool.keys.filter((item) => item.source === "kv").map((item) => item.key);
+  await kv.set(["keyPool"], { keys });
+}
+
+// 从环境变量和KV加载密钥池
+async function loadKeyPool() {
+  await addPoolKeys(UPSTREAM_API_KEYS, "env");
+  if (kv) {
+    try {
+      const stored = await kv.get<{ keys: string[] }>(["keyPool"]);
+      if (stored?.value?.keys) {
+        await addPoolKeys(stored.value.keys, "kv");
+      }
+    } catch (error) {
+      logger.error("从KV加载密钥池失败", { error });
+    }
+  }
+  if (keyPool.keys.length > 0) {
+    logger.info(`密钥池已加载 ${keyPool.keys.length} 个密钥，轮换策略: ${KEY_ROTATION_STRATEGY}`);
+  }
+}
+
+// 按轮换策略选取下一个可用密钥，跳过本次请求已尝试过的密钥
+function pickPoolKey(tried: Set<PoolKey>): PoolKey | null {
+  const now = Date.now();
+  const candidates = keyPool.keys.filter((item) => !tried.has(item));
+  if (candidates.length === 0) return null;
+  
+  const available = candidates.filter((item) => item.cooldownUntil <= now);
+  let picked: PoolKey;
+  
+  if (available.length === 0) {
+    // 所有密钥都在冷却中，选择最早结束冷却的一个
+    picked = candidates.reduce((a, b) => (a.cooldownUntil <= b.cooldownUntil ? a : b));
+  } else if (KEY_ROTATION_STRATEGY === "lru") {
+    picked = available.reduce((a, b) => (a.lastUsedAt <= b.lastUsedAt ? a : b));
+  } else {
+    picked = available[0];
+    for (let i = 0; i < keyPool.keys.length; i++) {
+      const item = keyPool.keys[(keyPool.cursor + i) % keyPool.keys.length];
+      if (available.includes(item)) {
+        picked = item;
+        keyPool.cursor = (keyPool.cursor + i + 1) % keyPool.keys.length;
+        break;
+      }
+    }
+  }
+  
+  picked.lastUsedAt = now;
+  return picked;
+}
+
+// 从请求中读取客户端提供的API密钥
+function getClientApiKey(request: Request, url: URL): string | null {
+  return request.headers.get("x-goog-api-key") || url.searchParams.get("key");
+}
+
+// 客户端携带代理访问令牌且密钥池不为空时，才替换为池中的密钥
+function shouldUseKeyPool(request: Request, url: URL): boolean {
+  if (keyPool.keys.length === 0 || PROXY_ACCESS_TOKENS.length === 0) return false;
+  const clientKey = getClientApiKey(request, url);
+  return !!clientKey && PROXY_ACCESS_TOKENS.some((token) => timingSafeEqual(clientKey, token));
+}
+
+// 判断响应是否为限额相关错误（429，或提示配额不足的403）
+async function isQuotaErrorResponse(response: Response): Promise<boolean> {
+  if (response.status === 429) return true;
+  if (response.status !== 403) return false;
+  try {
+    const text = await response.clone().text();
+    return /quota|RESOURCE_EXHAUSTED|rate.?limit/i.test(text);
+  } catch {
+    return false;
+  }
+}
+
+// 使用密钥池发送请求，遇到限额错误时冷却当前密钥并换下一个密钥重试
+async function fetchWithKeyPool(
+  request: Request,
+  targetUrl: URL,
+  requestHeaders: Headers,
+  body: ArrayBuffer | null,
+  attempts: UpstreamAttempt[],
+  timeouts: UpstreamTimeouts
+): Promise<Response> {
+  const upstreamUrl = new URL(targetUrl);
+  upstreamUrl.searchParams.delete("key");
+  
+  const tried = new Set<PoolKey>();
+  let lastResponse: Response | null = null;
+  
+  let poolKey = pickPoolKey(tried);
+  while (poolKey) {
+    tried.add(poolKey);
+    
+    const headers = new Headers(requestHeaders);
+    headers.set("x-goog-api-key", poolKey.key);
+    
+    const response = await fetchAttempt(upstreamUrl.toString(), {
+      method: request.method,
+      headers,
+      body,
+      redirect: 'follow',
+      signal: request.signal
+    }, attempts, timeouts, poolKey.id);
+    
+    if (!await isQuotaErrorResponse(response)) {
+      return response;
+    }
+    
+    poolKey.failures++;
+    poolKey.cooldownUntil = Date.now() + KEY_COOLDOWN_MS;
+    logger.warn(`密钥 ${maskSecret(poolKey.key)} 触发限额 (状态码: ${response.status})，冷却 ${KEY_COOLDOWN_MS / 1000} 秒`);
+    
+    poolKey = pickPoolKey(tried);
+    if (poolKey) {
+      // 还有其他密钥可以尝试，丢弃本次响应
+      await response.body?.cancel();
+    } else {
+      lastResponse = response;
+    }
+  }
+  
+  return lastResponse ?? new Response(JSON.stringify({ error: "密钥池中没有可用的密钥" }), {
+    status: 503,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*"
+    }
+  });
+}
+
+// ===== 虚拟密钥 =====
+
+const VIRTUAL_KEY_PREFIX = "vk-";
+
+// 代理签发的虚拟密钥：客户端使用虚拟密钥访问，转发时替换为真实的上游密钥
+interface VirtualKey {
+  id: string; // 密钥指纹，与 fingerprintSecret 的结果相同，同时作为KV键
+  hash: string; // 完整的 SHA-256，原始密钥只在创建时返回一次
+  hint: string; // 遮蔽后的密钥，用于在列表中辨认
+  label: string;
+  upstreamKey?: string; // 指定的上游密钥，留空则使用密钥池
+  allowedModels?: string[]; // 允许的模型，支持 * 通配符，留空不限制
+  allowedPaths?: string[]; // 允许的请求路径，支持 * 通配符，留空不限制
+  expiresAt?: number;
+  createdAt: number;
+  revokedAt?: number;
+  lastUsedAt?: number;
+}
+
+const VIRTUAL_KEY_TOUCH_INTERVAL_MS = 60 * 1000; // 最后使用时间的更新间隔，避免每个请求都写KV
+
+const memoryVirtualKeys = new Map<string, VirtualKey>();
+
+// 计算密钥的完整 SHA-256 十六进制值
+async function hashSecret(secret: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(secret));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// 生成新的虚拟密钥原文
+function generateVirtualKeySecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return VIRTUAL_KEY_PREFIX + Array.from(bytes).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// 对外展示的虚拟密钥信息，不包含上游密钥原文
+function describeVirtualKey(virtualKey: VirtualKey) {
+  const { hash: _hash, upstreamKey, ...rest } = virtualKey;
+  return { ...rest, upstream: upstreamKey ? maskSecret(upstreamKey) : "pool" };
+}
+
+// 校验创建或修改虚拟密钥时提交的字段，值为 null 的字段跳过（修改时表示清除）
+function validateVirtualKeyInput(input: unknown): Partial<VirtualKey> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("虚拟密钥配置必须是对象");
+  }
+  const data = input as Partial<VirtualKey>;
+  const result: Partial<VirtualKey> = {};
+  
+  if (data.label !== undefined) {
+    if (typeof data.label !== "string" || !data.label.trim()) throw new Error("label 必须是非空字符串");
+    result.label = data.label.trim();
+  }
+  if (data.upstreamKey !== undefined && data.upstreamKey !== null) {
+    if (typeof data.upstreamKey !== "string") throw new Error("upstreamKey 必须是字符串");
+    result.upstreamKey = data.upstreamKey.trim() || undefined;
+  }
+  for (const field of ["allowedModels", "allowedPaths"] as const) {
+    if (data[field] === undefined || data[field] === null) continue;
+    if (!Array.isArray(data[field]) || data[field]!.some((item) => typeof item !== "string")) {
+      throw new Error(`${field} 必须是字符串数组`);
+    }
+    const patterns = data[field]!.map((item) => item.trim()).filter(Boolean);
+    result[field] = patterns.length > 0 ? patterns : undefined;
+  }
+  if (data.expiresAt !== undefined && data.expiresAt !== null) {
+    if (typeof data.expiresAt !== "number" || !Number.isFinite(data.expiresAt)) throw new Error("expiresAt 必须是时间戳（毫秒）");
+    result.expiresAt = data.expiresAt;
+  }
+  return result;
+}
+
+async function getVirtualKey(id: string): Promise<VirtualKey | null> {
+  if (!kv) return memoryVirtualKeys.get(id) || null;
+  return (await kv.get<VirtualKey>(["virtualKeys", id])).value;
+}
+
+async function saveVirtualKey(virtualKey: VirtualKey) {
+  if (!kv) {
+    memoryVirtualKeys.set(virtualKey.id, virtualKey);
+    return;
+  }
+  await kv.set(["virtualKeys", virtualKey.id], virtualKey);
+}
+
+// 更新最后使用时间；读取后记录被修改（如已吊销）时放弃本次更新，避免覆盖管理员的修改
+async function touchVirtualKey(id: string, now: number) {
+  if (!kv) {
+    const virtualKey = memoryVirtualKeys.get(id);
+    if (virtualKey) virtualKey.lastUsedAt = now;
+    return;
+  }
+  const entry = await kv.get<VirtualKey>(["virtualKeys", id]);
+  if (!entry.value) return;
+  await kv.atomic().check(entry).set(entry.key, { ...entry.value, lastUsedAt: now }).commit();
+}
+
+async function listVirtualKeys(): Promise<VirtualKey[]> {
+  if (!kv) return [...memoryVirtualKeys.values()];
+  const keys: VirtualKey[] = [];
+  for await (const entry of kv.list<VirtualKey>({ prefix: ["virtualKeys"] })) {
+    keys.push(entry.value);
+  }
+  return keys;
+}
+
+// 判断客户端密钥是否为虚拟密钥
+function isVirtualKeySecret(secret: string | null): secret is string {
+  return !!secret && secret.startsWith(VIRTUAL_KEY_PREFIX);
+}
+
+// 按原文查找虚拟密钥，已吊销或已过期的密钥也会返回，由调用方判断
+async function findVirtualKey(secret: string): Promise<VirtualKey | null> {
+  const hash = await hashSecret(secret);
+  const virtualKey = await getVirtualKey(hash.slice(0, 12));
+  return virtualKey && timingSafeEqual(virtualKey.hash, hash) ? virtualKey : null;
+}
+
+// 校验请求携带的虚拟密钥：未携带虚拟密钥时返回 null，无权访问时返回错误响应；
+// 使用模型别名时，允许的模型匹配别名或实际模型均可
+async function authorizeVirtualKey(request: Request, url: URL, requestedModel?: string): Promise<VirtualKey | Response | null> {
+  const secret = getClientApiKey(request, url);
+  if (!isVirtualKeySecret(secret)) return null;
+  
+  let virtualKey: VirtualKey | null;
+  try {
+    virtualKey = await findVirtualKey(secret);
+  } catch (error) {
+    logger.error("读取虚拟密钥失败", { error });
+    recordKvFailure("virtualKeys");
+    return geminiErrorResponse(503, "暂时无法校验API密钥，请稍后重试", "UNAVAILABLE");
+  }
+  
+  const now = Date.now();
+  if (!virtualKey || virtualKey.revokedAt) {
+    return geminiErrorResponse(401, "API密钥无效或已被吊销", "UNAUTHENTICATED");
+  }
+  if (virtualKey.expiresAt && virtualKey.expiresAt <= now) {
+    return geminiErrorResponse(401, "API密钥已过期", "UNAUTHENTICATED");
+  }
+  const model = extractModelFromPath(url.pathname);
+  const models = [model, requestedModel].filter((item): item is string => !!item);
+  if (model && !virtualKeyAllowsModel(virtualKey, models)) {
+    return geminiErrorResponse(403, `此API密钥无权使用模型 ${model}`, "PERMISSION_DENIED");
+  }
+  if (virtualKey.allowedPaths && !virtualKey.allowedPaths.some((pattern) => matchesWildcard(url.pathname, pattern))) {
+    return geminiErrorResponse(403, `此API密钥无权访问 ${url.pathname}`, "PERMISSION_DENIED");
+  }
+  
+  if (!virtualKey.lastUsedAt || now - virtualKey.lastUsedAt > VIRTUAL_KEY_TOUCH_INTERVAL_MS) {
+    touchVirtualKey(virtualKey.id, now).catch((error) => {
+      logger.error("更新虚拟密钥使用时间失败", { error });
+      recordKvFailure("virtualKeys");
+    });
+  }
+  return virtualKey;
+}
+
+// 判断虚拟密钥能否使用模型，传入的任一名称（实际转发的模型或客户端请求的别名）匹配即可
+function virtualKeyAllowsModel(virtualKey: VirtualKey, models: string[]): boolean {
+  return !virtualKey.allowedModels || virtualKey.allowedModels.some((pattern) => models.some((item) => matchesWildcard(item, pattern)));
+}
+
+// 把请求中的虚拟密钥替换为上游密钥；返回 true 表示改用密钥池
+function applyVirtualKey(virtualKey: VirtualKey, headers: Headers, targetUrl: URL): boolean {
+  targetUrl.searchParams.delete("key");
+  headers.delete("authorization");
+  if (!virtualKey.upstreamKey) {
+    headers.delete("x-goog-api-key");
+    return true;
+  }
+  headers.set("x-goog-api-key", virtualKey.upstreamKey);
+  return false;
+}
+
+// 处理虚拟密钥API：GET 列出，POST 创建，PATCH /api/keys/:id 修改，DELETE /api/keys/:id 吊销
+async function handleVirtualKeysApi(request: Request, path: string): Promise<Response> {
+  const id = path.startsWith("/api/keys/") ? decodeURIComponent(path.slice("/api/keys/".length)) : "";
+  
+  if (!id && request.method === "GET") {
+    const keys = (await listVirtualKeys()).sort((a, b) => b.createdAt - a.createdAt);
+    return new Response(JSON.stringify({ keys: keys.map(describeVirtualKey) }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (!id && request.method === "POST") {
+    let input: Partial<VirtualKey>;
+    try {
+      input = validateVirtualKeyInput(await request.json());
+      if (!input.label) throw new Error("label 必须是非空字符串");
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    const secret = generateVirtualKeySecret();
+    const hash = await hashSecret(secret);
+    const virtualKey: VirtualKey = {
+      ...input,
+      id: hash.slice(0, 12),
+      hash,
+      hint: maskSecret(secret),
+      label: input.label!,
+      createdAt: Date.now(),
+    };
+    await saveVirtualKey(virtualKey);
+    logger.info(`已创建虚拟密钥 ${virtualKey.id} (${virtualKey.label})`);
+    
+    // 密钥原文只在创建时返回一次
+    return new Response(JSON.stringify({ success: true, key: secret, virtualKey: describeVirtualKey(virtualKey) }), {
+      status: 201,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (id && (request.method === "PATCH" || request.method === "DELETE")) {
+    const virtualKey = await getVirtualKey(id);
+    if (!virtualKey) {
+      return new Response(JSON.stringify({ error: "虚拟密钥不存在" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    let updated: VirtualKey;
+    if (request.method === "DELETE") {
+      // 吊销后保留记录，便于在日志中追溯
+      updated = { ...virtualKey, revokedAt: virtualKey.revokedAt || Date.now() };
+      logger.info(`已吊销虚拟密钥 ${id} (${virtualKey.label})`);
+    } else {
+      let input: Partial<VirtualKey>;
+      let requestData: Record<string, unknown>;
+      try {
+        requestData = await request.json();
+        input = validateVirtualKeyInput(requestData);
+      } catch (error) {
+        return new Response(JSON.stringify({ error: (error as Error).message }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      updated = { ...virtualKey, ...input };
+      // 显式传入 null 表示清除对应字段
+      for (const field of ["expiresAt", "allowedModels", "allowedPaths", "upstreamKey"] as const) {
+        if (requestData[field] === null) delete updated[field];
+      }
+    }
+    await saveVirtualKey(updated);
+    return new Response(JSON.stringify({ success: true, virtualKey: describeVirtualKey(updated) }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 上游超时 =====
+
+const TIMEOUT_PHASE_LABELS: Record<TimeoutPhase, string> = {
+  connect: "连接",
+  firstByte: "首字节",
+  idle: "响应流空闲",
+};
+
+// 上游请求在某个阶段超时
+class UpstreamTimeoutError extends Error {
+  phase: TimeoutPhase;
+  timeoutMs: number;
+  
+  constructor(phase: TimeoutPhase, timeoutMs: number) {
+    super(`上游${TIMEOUT_PHASE_LABELS[phase]}超时 (${timeoutMs}ms)`);
+    this.name = "UpstreamTimeoutError";
+    this.phase = phase;
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+// 校验路由中的超时配置，未填写的字段使用默认值
+function validateUpstreamTimeouts(input: unknown, label: string): Partial<UpstreamTimeouts> | undefined {
+  if (input === undefined) return undefined;
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error(`${label}: timeouts 必须是对象`);
+  }
+  const timeouts = input as Partial<UpstreamTimeouts>;
+  for (const field of ["connectMs", "firstByteMs", "idleMs"] as const) {
+    const value = timeouts[field];
+    if (value !== undefined && (typeof value !== "number" || value < 0 || !Number.isFinite(value))) {
+      throw new Error(`${label}: timeouts.${field} 必须是非负数`);
+    }
+  }
+  return { connectMs: timeouts.connectMs, firstByteMs: timeouts.firstByteMs, idleMs: timeouts.idleMs };
+}
+
+// 计算请求使用的上游超时，路由未设置的字段使用默认值
+function getUpstreamTimeouts(route: ProxyRoute | null): UpstreamTimeouts {
+  return {
+    connectMs: route?.timeouts?.connectMs ?? DEFAULT_UPSTREAM_TIMEOUTS.connectMs,
+    firstByteMs: route?.timeouts?.firstByteMs ?? DEFAULT_UPSTREAM_TIMEOUTS.firstByteMs,
+    idleMs: route?.timeouts?.idleMs ?? DEFAULT_UPSTREAM_TIMEOUTS.idleMs,
+  };
+}
+
+// ===== 上游重试 =====
+
+// 校验重试策略，未提供的字段使用默认值
+function validateRetryPolicy(input: unknown): RetryPolicy {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("重试策略必须是对象");
+  }
+  const policy = { ...DEFAULT_RETRY_POLICY, ...(input as Partial<RetryPolicy>) };
+  
+  for (const field of ["maxAttempts", "baseDelayMs", "maxDelayMs"] as const) {
+    if (typeof policy[field] !== "number" || policy[field] < 0 || !Number.isFinite(policy[field])) {
+      throw new Error(`${field} 必须是非负数`);
+    }
+  }
+  if (policy.maxAttempts < 1) {
+    throw new Error("maxAttempts 至少为 1");
+  }
+  if (!Array.isArray(policy.retryOnStatus) || policy.retryOnStatus.some((status) => !Number.isInteger(status))) {
+    throw new Error("retryOnStatus 必须是状态码数组");
+  }
+  if (!Array.isArray(policy.retryMethods) || policy.retryMethods.some((method) => typeof method !== "string")) {
+    throw new Error("retryMethods 必须是请求方法数组");
+  }
+  
+  return {
+    ...policy,
+    maxAttempts: Math.floor(policy.maxAttempts),
+    jitter: policy.jitter !== false,
+    respectRetryAfter: policy.respectRetryAfter !== false,
+    retryOnNetworkError: policy.retryOnNetworkError !== false,
+    retryMethods: policy.retryMethods.map((method) => method.toUpperCase()),
+  };
+}
+
+// 发出单次上游请求，并把结果记录到 attempts
+// 收到第一个数据块后才返回响应，这样首字节超时也能像网络错误一样重试或降级；之后数据块间隔超过 idleMs 时响应体以超时错误结束
+// 返回响应前客户端断开会取消上游请求，返回之后由响应体的 cancel 逐层传递到上游
+async function fetchAttempt(
+  url: string,
+  init: RequestInit,
+  attempts: UpstreamAttempt[],
+  timeouts: UpstreamTimeouts,
+  keyId?: string
+): Promise<Response> {
+  const startedAt = Date.now();
+  const record: UpstreamAttempt = { attempt: attempts.length + 1, durationMs: 0, keyId };
+  attempts.push(record);
+  
+  const abortController = new AbortController();
+  const clientSignal = init.signal;
+  const abortOnClientDisconnect = () => abortController.abort(clientSignal!.reason);
+  if (clientSignal?.aborted) {
+    abortOnClientDisconnect();
+  } else {
+    clientSignal?.addEventListener("abort", abortOnClientDisconnect, { once: true });
+  }
+  
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const startTimer = (phase: TimeoutPhase) => {
+    clearTimeout(timer);
+    const timeoutMs = timeouts[`${phase}Ms` as const];
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => abortController.abort(new UpstreamTimeoutError(phase, timeoutMs)), timeoutMs);
+    }
+  };
+  
+  try {
+    startTimer("connect");
+    const response = await fetch(url, { ...init, signal: abortController.signal });
+    record.status = response.status;
+    if (!response.body) return response;
+    
+    startTimer("firstByte");
+    const reader = response.body.getReader();
+    const first = await reader.read();
+    clearTimeout(timer);
+    
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        if (first.done) {
+          controller.close();
+        } else {
+          controller.enqueue(first.value);
+        }
+      },
+      async pull(controller) {
+        startTimer("idle");
+        try {
+          const { done, value } = await reader.read();
+          clearTimeout(timer);
+          if (done) {
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          clearTimeout(timer);
+          if (error instanceof UpstreamTimeoutError) {
+            record.error = error.message;
+            record.timeout = error.phase;
+            logger.warn(error.message, { url: redactUrl(url) });
+          }
+          controller.error(error);
+        }
+      },
+      async cancel(reason) {
+        clearTimeout(timer);
+        await reader.cancel(reason);
+      }
+    });
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers
+    });
+  } catch (error) {
+    clearTimeout(timer);
+    record.error = (error as Error).message;
+    if (error instanceof UpstreamTimeoutError) {
+      record.timeout = error.phase;
+    }
+    throw error;
+  } finally {
+    clientSignal?.removeEventListener("abort", abortOnClientDisconnect);
+    record.durationMs = Date.now() - startedAt;
+  }
+}
+// 计算下一次重试前的等待时间；上游要求的等待超过上限时返回 null，表示不再重试
+function computeRetryDelay(policy: RetryPolicy, retryIndex: number, retryAfter: string | null): number | null {
+  let delay = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryIndex - 1));
+  if (policy.jitter) {
+    delay = Math.random() * delay;
+  }
+  
+  if (policy.respectRetryAfter && retryAfter) {
+    const seconds = Number(retryAfter);
+    const retryAfterMs = Number.isNaN(seconds) ? Date.parse(retryAfter) - Date.now() : seconds * 1000;
+    if (retryAfterMs > policy.maxDelayMs) return null;
+    if (retryAfterMs > 0) delay = Math.max(delay, retryAfterMs);
+  }
+  
+  return Math.round(delay);
+}
+
+// 判断本次请求能否按重试策略重试：方法允许且请求体已缓冲（可以安全地重新发送）
+function isRetryableRequest(request: Request): boolean {
+  const policy = state.retryPolicy;
+  return policy.maxAttempts > 1 && policy.retryMethods.includes(request.method.toUpperCase());
+}
+
+// 发送请求到上游，按重试策略对网络错误和可重试状态码进行指数退避重试
+async function fetchUpstream(
+  request: Request,
+  targetUrl: URL,
+  headers: Headers,
+  body: ArrayBuffer | ReadableStream<Uint8Array> | null,
+  usePool: boolean,
+  attempts: UpstreamAttempt[],
+  timeouts: UpstreamTimeouts
+): Promise<Response> {
+  const policy = state.retryPolicy;
+  // 流式请求体只能读取一次，不能重试
+  const replayable = !(body instanceof ReadableStream);
+  const maxRounds = replayable && isRetryableRequest(request) ? policy.maxAttempts : 1;
+  
+  for (let round = 1; ; round++) {
+    let response: Response;
+    try {
+      response = usePool && replayable
+        ? await fetchWithKeyPool(request, targetUrl, headers, body, attempts, timeouts)
+        : await fetchAttempt(targetUrl.toString(), {
+            method: request.method,
+            headers,
+            body,
+            redirect: 'follow',
+            signal: request.signal
+          }, attempts, timeouts);
+    } catch (error) {
+      // 客户端已断开时不再重试
+      if (round >= maxRounds || !policy.retryOnNetworkError || request.signal.aborted) throw error;
+      
+      const delay = computeRetryDelay(policy, round, null)!;
+      attempts[attempts.length - 1].retryDelayMs = delay;
+      logger.warn(`上游请求出错 (${(error as Error).message})，${delay}ms 后进行第 ${round + 1} 次尝试`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      continue;
+    }
+    
+    if (round >= maxRounds || !policy.retryOnStatus.includes(response.status)) {
+      return response;
+    }
+    
+    const delay = computeRetryDelay(policy, round, response.headers.get("retry-after"));
+    if (delay === null) {
+      logger.warn(`上游要求的等待时间超过重试上限，直接返回状态码 ${response.status}`);
+      return response;
+    }
+    
+    attempts[attempts.length - 1].retryDelayMs = delay;
+    logger.warn(`上游返回状态码 ${response.status}，${delay}ms 后进行第 ${round + 1} 次尝试`);
+    await response.body?.cancel();
+    await new Promise((resolve) => setTimeout(resolve, delay));
+  }
+}
+
+// 处理重试策略API
+async function handleRetryPolicyApi(request: Request): Promise<Response> {
+  if (request.method === "GET") {
+    return new Response(JSON.stringify({ policy: state.retryPolicy }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "PUT") {
+    let policy: RetryPolicy;
+    try {
+      const requestData = await request.json();
+      policy = validateRetryPolicy(requestData.policy);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    state.retryPolicy = policy;
+    if (kv) {
+      await kv.set(["proxyConfig", "retry"], { policy });
+    }
+    logger.info(`重试策略已更新: 最多尝试 ${policy.maxAttempts} 次`);
+    
+    return new Response(JSON.stringify({ success: true, policy }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 降级链 =====
+
+// 降级链中的一跳：改写路径中的模型，或改用另一个上游（只替换协议、主机和端口）
+interface FallbackHop {
+  model?: string;
+  target?: string;
+}
+
+// 降级链中每一跳的实际结果，记录在日志中
+interface FallbackStep {
+  model: string;
+  target?: string;
+  status?: number;
+  error?: string;
+}
+
+// 校验降级链配置，键为模型（支持 * 通配符），值为依次尝试的降级目标；只写模型名称时等同于 {"model": 名称}
+function validateFallbackChains(input: unknown): Record<string, FallbackHop[]> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("降级链必须是对象，键为模型，值为降级目标数组");
+  }
+  
+  const chains: Record<string, FallbackHop[]> = {};
+  for (const [model, hops] of Object.entries(input)) {
+    if (!Array.isArray(hops) || hops.length === 0) {
+      throw new Error(`${model}: 降级链必须是非空数组`);
+    }
+    chains[model] = hops.map((item, index) => {
+      const hop: FallbackHop = typeof item === "string" ? { model: item } : item;
+      const label = `${model} 的第 ${index + 1} 个降级目标`;
+      if (!hop || typeof hop !== "object" || Array.isArray(hop) || (!hop.model && !hop.target)) {
+        throw new Error(`${label}: 必须是模型名称或包含 model、target 的对象`);
+      }
+      if (hop.model !== undefined && (typeof hop.model !== "string" || /[/:]/.test(hop.model))) {
+        throw new Error(`${label}: 无效的模型名称 ${hop.model}`);
+      }
+      if (hop.target !== undefined) {
+        try {
+          const url = new URL(hop.target);
+          if (url.protocol !== "http:" && url.protocol !== "https:") throw new Error();
+        } catch {
+          throw new Error(`${label}: 无效的上游地址 ${hop.target}`);
+        }
+      }
+      return { model: hop.model || undefined, target: hop.target || undefined };
+    });
+  }
+  return chains;
+}
+
+// 查找模型的降级链，精确匹配优先，其次按配置顺序匹配通配符
+function findFallbackChain(model: string): FallbackHop[] {
+  const chains = state.fallbackChains;
+  if (chains[model]) return chains[model];
+  const pattern = Object.keys(chains).find((key) => key.includes("*") && matchesWildcard(model, key));
+  return pattern ? chains[pattern] : [];
+}
+
+// 判断上游响应是否需要降级：503 或 RESOURCE_EXHAUSTED 的 429
+async function shouldFallback(response: Response): Promise<boolean> {
+  if (response.status === 503) return true;
+  if (response.status !== 429) return false;
+  try {
+    return (await response.clone().text()).includes("RESOURCE_EXHAUSTED");
+  } catch {
+    return false;
+  }
+}
+
+// 按降级链请求上游：原模型过载或网络出错时依次尝试降级目标，每一跳都会改写路径和请求体中的模型
+// 返回实际应答的上游地址，响应头 X-Proxy-Model 标明应答的模型
+async function fetchWithFallback(
+  request: Request,
+  targetUrl: URL,
+  headers: Headers,
+  body: ArrayBuffer | ReadableStream<Uint8Array> | null,
+  usePool: boolean,
+  attempts: UpstreamAttempt[],
+  timeouts: UpstreamTimeouts,
+  cacheTtl: number | null,
+  cacheScope: string,
+  virtualKey: VirtualKey | null,
+  chain: FallbackHop[],
+  steps: FallbackStep[]
+): Promise<{ response: Response; cacheStatus?: CacheStatus; targetUrl: URL }> {
+  const originalModel = extractModelFromPath(targetUrl.pathname);
+  // 流式请求体不能重新发送，不进行降级；降级目标同样要符合模型策略和虚拟密钥的模型限制
+  const hops: FallbackHop[] = [{}];
+  if (originalModel && !(body instanceof ReadableStream)) {
+    for (const hop of chain) {
+      if (hop.model && !isModelAllowed(hop.model)) {
+        logger.warn(`降级目标 ${hop.model} 不符合模型策略，已跳过`);
+      } else if (hop.model && virtualKey && !virtualKeyAllowsModel(virtualKey, [hop.model])) {
+        logger.warn(`虚拟密钥 ${virtualKey.id} 无权使用降级目标 ${hop.model}，已跳过`);
+      } else {
+        hops.push(hop);
+      }
+    }
+  }
+  
+  for (let index = 0; ; index++) {
+    const hop = hops[index];
+    const model = hop.model || originalModel;
+    const nextModel = hops[index + 1]?.model || originalModel;
+    let hopUrl = targetUrl;
+    let hopBody = body;
+    if (index > 0) {
+      hopUrl = new URL(targetUrl.pathname + targetUrl.search, hop.target || targetUrl);
+      if (model !== originalModel) {
+        hopUrl.pathname = targetUrl.pathname.replace(MODEL_PATH_PATTERN, (_match, kind) => `/${kind}/${encodeURIComponent(model!)}`);
+        if (body instanceof ArrayBuffer) {
+          try {
+            const rewritten = rewriteModelInBody(new TextDecoder("utf-8", { fatal: true }).decode(body), originalModel!, model!);
+            if (rewritten !== null) hopBody = new TextEncoder().encode(rewritten).buffer;
+          } catch {
+            // 非文本请求体原样发送
+          }
+        }
+      }
+    }
+    
+    const step: FallbackStep = { model: model || "unknown", target: hop.target };
+    steps.push(step);
+    const isLastHop = index === hops.length - 1;
+    let result: { response: Response; cacheStatus?: CacheStatus };
+    try {
+      result = await fetchUpstreamCached(request, hopUrl, headers, hopBody, usePool, attempts, timeouts, cacheTtl, cacheScope);
+    } catch (error) {
+      step.error = (error as Error).message;
+      if (isLastHop || request.signal.aborted) throw error;
+      logger.warn(`上游请求出错 (${step.error})，降级到 ${nextModel}`);
+      continue;
+    }
+    
+    step.status = result.response.status;
+    if (!isLastHop && await shouldFallback(result.response)) {
+      logger.warn(`模型 ${model} 返回状态码 ${step.status}，降级到 ${nextModel}`);
+      await result.response.body?.cancel();
+      continue;
+    }
+    
+    if (!model) {
+      return { ...result, targetUrl: hopUrl };
+    }
+    const responseHeaders = new Headers(result.response.headers);
+    responseHeaders.set("X-Proxy-Model", model);
+    return {
+      response: new Response(result.response.body, {
+        status: result.response.status,
+        statusText: result.response.statusText,
+        headers: responseHeaders
+      }),
+      cacheStatus: result.cacheStatus,
+      targetUrl: hopUrl
+    };
+  }
+}
+
+// 处理降级链API
+async function handleFallbackApi(request: Request): Promise<Response> {
+  if (request.method === "GET") {
+    return new Response(JSON.stringify({ chains: state.fallbackChains }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "PUT") {
+    let chains: Record<string, FallbackHop[]>;
+    try {
+      const requestData = await request.json();
+      chains = validateFallbackChains(requestData.chains);
+    } catch (error) {
+      return new Response(JSON.stringify({ error: (error as Error).message }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    state.fallbackChains = chains;
+    if (kv) {
+      await kv.set(["proxyConfig", "fallback"], { chains });
+    }
+    logger.info(`降级链已更新: ${Object.keys(chains).length} 个模型`);
+    
+    return new Response(JSON.stringify({ success: true, chains }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== KV分块存储 =====
+// KV单个值不能超过64KB，较大的内容按固定大小拆分，存到以 prefix 开头、以序号结尾的多个键中
+
+const KV_CHUNK_SIZE = 60 * 1024;
+
+// 把内容拆分为若干块
+function splitKvChunks(bytes: Uint8Array): Uint8Array[] {
+  const chunks: Uint8Array[] = [];
+  for (let offset = 0; offset < bytes.byteLength; offset += KV_CHUNK_SIZE) {
+    chunks.push(bytes.subarray(offset, offset + KV_CHUNK_SIZE));
+  }
+  return chunks;
+}
+
+// 分批写入所有分块，返回分块数量；单个原子操作有总大小限制，因此每批最多写入10块
+async function writeKvChunks(prefix: Deno.KvKey, bytes: Uint8Array, expireIn?: number): Promise<number> {
+  const chunks = splitKvChunks(bytes);
+  for (let i = 0; i < chunks.length; i += 10) {
+    const atomicOp = kv!.atomic();
+    chunks.slice(i, i + 10).forEach((chunk, offset) => {
+      atomicOp.set([...prefix, i + offset], chunk, expireIn ? { expireIn } : undefined);
+    });
+    const result = await atomicOp.commit();
+    if (!result.ok) throw new Error("写入分块失败");
+  }
+  return chunks.length;
+}
+
+// 读取并拼接所有分块，任意一块缺失（如已过期）时返回 null
+async function readKvChunks(prefix: Deno.KvKey, count: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  const chunks: Uint8Array[] = [];
+  for (let i = 0; i < count; i += 10) {
+    const keys = Array.from({ length: Math.min(10, count - i) }, (_, offset) => [...prefix, i + offset]);
+    const entries = await kv!.getMany<Uint8Array[]>(keys);
+    for (const entry of entries) {
+      if (!(entry.value instanceof Uint8Array)) return null;
+      chunks.push(entry.value);
+    }
+  }
+  
+  const bytes = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.byteLength, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes;
+}
+
+// 删除 prefix 下的所有分块
+async function deleteKvChunks(prefix: Deno.KvKey) {
+  for await (const entry of kv!.list({ prefix })) {
+    await kv!.delete(entry.key);
+  }
+}
+
+// ===== 响应缓存 =====
+// 对确定性的 generateContent / countTokens 请求缓存成功的响应，按目标、路径、模型和规范化后的请求体计算缓存键
+// 通过路由的 cache 字段或请求头 X-Proxy-Cache 开启，X-Proxy-Cache: off 可跳过缓存
+
+type CacheStatus = "HIT" | "MISS";
+
+// 缓存条目的元数据，响应体分块存储在 ["cacheChunks", hash, n]
+interface CacheEntryMeta {
+  hash: string;
+  path: string;
+  model: string;
+  status: number;
+  headers: [string, string][];
+  size: number;
+  chunks: number;
+  createdAt: number;
+  expiresAt: number;
+}
+
+// 未启用KV时的内存缓存
+const memoryCache = new Map<string, { meta: CacheEntryMeta; body: Uint8Array<ArrayBuffer> }>();
+
+// 是否为可缓存的接口
+function isCacheablePath(path: string): boolean {
+  return /:(generateContent|countTokens)$/.test(path);
+}
+
+// 判断本次请求是否使用缓存，返回缓存有效期，不使用时返回 null
+function getCacheTtl(request: Request, route: ProxyRoute | null, targetUrl: URL): number | null {
+  if (request.method !== "POST" || !isCacheablePath(targetUrl.pathname)) return null;
+  
+  const header = (request.headers.get("x-proxy-cache") || "").toLowerCase();
+  if (["off", "0", "false", "bypass"].includes(header)) return null;
+  if (["on", "1", "true"].includes(header) || route?.cache) {
+    return route?.cacheTtlMs || CACHE_TTL_MS;
+  }
+  return null;
+}
+
+// 递归排序对象的键，使字段顺序不同但内容相同的请求体得到相同的缓存键
+function canonicalizeJson(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonicalizeJson);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value).sort().map((key) => [key, canonicalizeJson((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+// 确定缓存的隔离范围：虚拟密钥按密钥ID，其他情况按客户端携带的密钥或令牌
+// 不同凭据之间不共享缓存，避免无效凭据命中缓存绕过上游鉴权，或读到其他租户的响应
+function getCacheScope(request: Request, url: URL, virtualKey: VirtualKey | null): string {
+  if (virtualKey) return `key:${virtualKey.id}`;
+  return `client:${getClientApiKey(request, url) || request.headers.get("authorization") || ""}`;
+}
+
+// 计算缓存键，请求体不是JSON时不缓存；凭据只参与哈希，不会写入缓存条目
+async function computeCacheKey(targetUrl: URL, body: ArrayBuffer | null, scope: string): Promise<string | null> {
+  let canonicalBody: unknown = null;
+  if (body && body.byteLength > 0) {
+    try {
+      canonicalBody = canonicalizeJson(JSON.parse(new TextDecoder().decode(body)));
+    } catch {
+      return null;
+    }
+  }
+  
+  const material = JSON.stringify([
+    scope,
+    targetUrl.origin,
+    targetUrl.pathname,
+    extractModelFromPath(targetUrl.pathname) || "",
+    canonicalBody,
+  ]);
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(material));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// 读取缓存条目，已过期或分块不完整时视为未命中
+async function getCacheEntry(hash: string): Promise<{ meta: CacheEntryMeta; body: Uint8Array<ArrayBuffer> } | null> {
+  if (!kv) {
+    const entry = memoryCache.get(hash);
+    if (!entry || entry.meta.expiresAt <= Date.now()) {
+      memoryCache.delete(hash);
+      return null;
+    }
+    return entry;
+  }
+  
+  const metaEntry = await kv.get<CacheEntryMeta>(["cache", hash]);
+  const meta = metaEntry.value;
+  if (!meta || meta.expiresAt <= Date.now()) return null;
+  const body = await readKvChunks(["cacheChunks", hash], meta.chunks);
+  return body ? { meta, body } : null;
+}
+
+// 写入缓存条目，先写分块再写元数据，元数据存在即表示条目完整
+async function putCacheEntry(meta: CacheEntryMeta, body: Uint8Array<ArrayBuffer>) {
+  const ttl = meta.expiresAt - meta.createdAt;
+  if (!kv) {
+    memoryCache.set(meta.hash, { meta, body });
+  } else {
+    meta.chunks = await writeKvChunks(["cacheChunks", meta.hash], body, ttl);
+    await kv.set(["cache", meta.hash], meta, { expireIn: ttl });
+  }
+  await enforceCacheSizeLimit();
+}
+
+// 列出所有未过期的缓存条目
+async function listCacheEntries(): Promise<CacheEntryMeta[]> {
+  const now = Date.now();
+  if (!kv) {
+    return [...memoryCache.values()].map((entry) => entry.meta).filter((meta) => meta.expiresAt > now);
+  }
+  const entries: CacheEntryMeta[] = [];
+  for await (const entry of kv.list<CacheEntryMeta>({ prefix: ["cache"] })) {
+    if (entry.value.expiresAt > now) entries.push(entry.value);
+  }
+  return entries;
+}
+
+// 删除缓存条目
+async function deleteCacheEntry(hash: string) {
+  if (!kv) {
+    memoryCache.delete(hash);
+    return;
+  }
+  await kv.delete(["cache", hash]);
+  await deleteKvChunks(["cacheChunks", hash]);
+}
+
+// 缓存总大小超过上限时，从最早写入的条目开始删除
+async function enforceCacheSizeLimit() {
+  const entries = (await listCacheEntries()).sort((a, b) => a.createdAt - b.createdAt);
+  let totalSize = entries.reduce((size, meta) => size + meta.size, 0);
+  for (const meta of entries) {
+    if (totalSize <= CACHE_MAX_BYTES) break;
+    await deleteCacheEntry(meta.hash);
+    totalSize -= meta.size;
+  }
+}
+
+// 带缓存地请求上游：命中时直接返回缓存的响应，未命中时转发，并把 200 响应写入缓存
+// 写缓存需要完整的响应体，因此未命中时会先读完响应再返回（可缓存的接口都不是流式接口）
+async function fetchUpstreamCached(
+  request: Request,
+  targetUrl: URL,
+  headers: Headers,
+  body: ArrayBuffer | ReadableStream<Uint8Array> | null,
+  usePool: boolean,
+  attempts: UpstreamAttempt[],
+  timeouts: UpstreamTimeouts,
+  cacheTtl: number | null,
+  cacheScope: string
+): Promise<{ response: Response; cacheStatus?: CacheStatus }> {
+  const hash = cacheTtl && !(body instanceof ReadableStream) ? await computeCacheKey(targetUrl, body, cacheScope) : null;
+  if (!hash) {
+    return { response: await fetchUpstream(request, targetUrl, headers, body, usePool, attempts, timeouts) };
+  }
+  
+  try {
+    const cached = await getCacheEntry(hash);
+    if (cached) {
+      const cachedHeaders = new Headers(cached.meta.headers);
+      cachedHeaders.set("X-Cache", "HIT");
+      cachedHeaders.set("Age", String(Math.floor((Date.now() - cached.meta.createdAt) / 1000)));
+      return { response: new Response(cached.body, { status: cached.meta.status, headers: cachedHeaders }), cacheStatus: "HIT" };
+    }
+  } catch (error) {
+    logger.error("读取响应缓存失败", { error });
+    recordKvFailure("cache");
+  }
+  
+  const response = await fetchUpstream(request, targetUrl, headers, body, usePool, attempts, timeouts);
+  const responseHeaders = new Headers(response.headers);
+  responseHeaders.set("X-Cache", "MISS");
+  if (response.status !== 200) {
+    return { response: new Response(response.body, { status: response.status, statusText: response.statusText, headers: responseHeaders }), cacheStatus: "MISS" };
+  }
+  
+  const responseBody = new Uint8Array(await response.arrayBuffer());
+  if (responseBody.byteLength <= CACHE_MAX_ENTRY_BYTES) {
+    const now = Date.now();
+    // 响应体已经解码，不能保留原来的编码和长度
+    const storedHeaders = [...response.headers.entries()]
+      .filter(([name]) => !["content-encoding", "content-length", "transfer-encoding", "set-cookie"].includes(name));
+    try {
+      await putCacheEntry({
+        hash,
+        path: targetUrl.pathname,
+        model: extractModelFromPath(targetUrl.pathname) || "unknown",
+        status: response.status,
+        headers: storedHeaders,
+        size: responseBody.byteLength,
+        chunks: 0,
+        createdAt: now,
+        expiresAt: now + cacheTtl!,
+      }, responseBody);
+    } catch (error) {
+      logger.error("写入响应缓存失败", { error });
+      recordKvFailure("cache");
+    }
+  }
+  return { response: new Response(responseBody, { status: response.status, statusText: response.statusText, headers: responseHeaders }), cacheStatus: "MISS" };
+}
+
+// 处理缓存API：GET /api/cache 查看缓存条目，DELETE /api/cache 清空，可用 ?hash= 或 ?model= 只删除部分条目
+async function handleCacheApi(request: Request): Promise<Response> {
+  if (request.method === "GET") {
+    const entries = (await listCacheEntries()).sort((a, b) => b.createdAt - a.createdAt);
+    return new Response(JSON.stringify({
+      entries: entries.map(({ headers: _headers, chunks: _chunks, ...meta }) => meta),
+      totalSize: entries.reduce((size, meta) => size + meta.size, 0),
+      maxSize: CACHE_MAX_BYTES,
+      maxEntrySize: CACHE_MAX_ENTRY_BYTES,
+      defaultTtlMs: CACHE_TTL_MS,
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (request.method === "DELETE") {
+    const params = new URL(request.url).searchParams;
+    const hash = params.get("hash");
+    const model = params.get("model");
+    let deleted = 0;
+    for (const meta of await listCacheEntries()) {
+      if ((hash && meta.hash !== hash) || (model && meta.model !== model)) continue;
+      await deleteCacheEntry(meta.hash);
+      deleted++;
+    }
+    logger.info(`已清除 ${deleted} 条响应缓存`);
+    return new Response(JSON.stringify({ success: true, deleted }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 用量统计 =====
+// 从 generateContent / streamGenerateContent 响应中解析 usageMetadata，按天、模型、客户端IP和密钥指纹累计
+
+const USAGE_FIELDS = ["requests", "promptTokens", "candidatesTokens", "thoughtsTokens", "totalTokens"] as const;
+type UsageField = typeof USAGE_FIELDS[number];
+type UsageCounts = Record<UsageField, number>;
+
+// 未启用KV时的内存统计，键为 JSON 序列化的 [日期, 模型, IP, 密钥指纹, 字段]
+const memoryUsage = new Map<string, number>();
+
+// 获取客户端IP
+function getClientIP(request: Request): string {
+  return request.headers.get("x-forwarded-for") || "unknown";
+}
+
+// 从环境变量读取价格表，与默认价格合并
+function parseModelPricesEnv(): Record<string, ModelPrice> {
+  const raw = Deno.env.get("MODEL_PRICES");
+  if (!raw) return { ...DEFAULT_MODEL_PRICES };
+  try {
+    return { ...DEFAULT_MODEL_PRICES, ...validateModelPrices(JSON.parse(raw)) };
+  } catch (error) {
+    logger.warn("MODEL_PRICES 环境变量无效，使用默认价格", { error });
+    return { ...DEFAULT_MODEL_PRICES };
+  }
+}
+
+// 校验价格表
+function validateModelPrices(input: unknown): Record<string, ModelPrice> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("价格表必须是对象，如 {\"gemini-2.5-flash\": {\"input\": 0.3, \"output\": 2.5}}");
+  }
+  const prices: Record<string, ModelPrice> = {};
+  for (const [model, price] of Object.entries(input as Record<string, ModelPrice>)) {
+    if (typeof price?.input !== "number" || typeof price?.output !== "number") {
+      throw new Error(`${model}: input 和 output 必须是数字`);
+    }
+    prices[model] = { input: price.input, output: price.output };
+  }
+  return prices;
+}
+
+// 查找模型价格：优先精确匹配，其次匹配最长的前缀（如 gemini-2.5-flash-001 使用 gemini-2.5-flash 的价格）
+function findModelPrice(model: string): ModelPrice | null {
+  if (state.modelPrices[model]) return state.modelPrices[model];
+  const prefix = Object.keys(state.modelPrices)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? state.modelPrices[prefix] : null;
+}
+
+// 估算费用（美元），思考token按输出价格计费
+function estimateCost(model: string, counts: UsageCounts): number | null {
+  const price = findModelPrice(model);
+  if (!price) return null;
+  return (counts.promptTokens * price.input + (counts.candidatesTokens + counts.thoughtsTokens) * price.output) / 1_000_000;
+}
+
+// 从响应文本中提取最后一个 usageMetadata 对象，兼容 JSON、JSON 数组和 SSE 格式
+function extractUsageMetadata(text: string): GeminiUsageMetadata | null {
+  const index = text.lastIndexOf('"usageMetadata"');
+  if (index === -1) return null;
+  
+  const start = text.indexOf("{", index);
+  if (start === -1) return null;
+  
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === "{") depth++;
+    else if (text[i] === "}") depth--;
+    if (depth === 0) {
+      try {
+        return JSON.parse(text.slice(start, i + 1));
+      } catch {
+        return null;
+      }
+    }
+  }
+  return null;
+}
+
+// 是否需要统计该路径的用量
+function isUsageTrackedPath(path: string): boolean {
+  return /:(generateContent|streamGenerateContent)$/.test(path);
+}
+
+// 累计一次请求的用量
+async function recordUsage(model: string, clientIP: string, keyId: string, usage: GeminiUsageMetadata) {
+  const day = new Date().toISOString().slice(0, 10);
+  const counts: UsageCounts = {
+    requests: 1,
+    promptTokens: usage.promptTokenCount || 0,
+    candidatesTokens: usage.candidatesTokenCount || 0,
+    thoughtsTokens: usage.thoughtsTokenCount || 0,
+    totalTokens: usage.totalTokenCount || 0,
+  };
+  
+  if (!kv) {
+    for (const field of USAGE_FIELDS) {
+      const key = JSON.stringify([day, model, clientIP, keyId, field]);
+      memoryUsage.set(key, (memoryUsage.get(key) || 0) + counts[field]);
+    }
+    return;
+  }
+  
+  try {
+    const atomicOp = kv.atomic();
+    for (const field of USAGE_FIELDS) {
+      if (counts[field] > 0) {
+        atomicOp.sum(["usage", day, model, clientIP, keyId, field], BigInt(counts[field]));
+      }
+    }
+    await atomicOp.commit();
+  } catch (error) {
+    logger.error("保存用量统计失败", { error });
+    recordKvFailure("usage");
+  }
+}
+
+// 记录一次响应的用量，并扣减限流的每日token额度
+async function recordResponseUsage(request: Request, targetUrl: URL, attempts: UpstreamAttempt[], usage: GeminiUsageMetadata) {
+  const model = extractModelFromPath(targetUrl.pathname) || "unknown";
+  const clientKey = getClientApiKey(request, new URL(request.url));
+  const keyId = attempts[attempts.length - 1]?.keyId || (clientKey ? await fingerprintSecret(clientKey) : "none");
+  await recordUsage(model, getClientIP(request), keyId, usage);
+  await consumeDailyTokens(await getRateLimitIdentity(request, new URL(request.url)), usage.totalTokenCount || 0);
+}
+
+// 包装响应体，在转发的同时保留末尾一段内容，流结束后从中解析用量
+// 用量信息总在响应末尾，因此不需要缓冲完整响应，关闭调试模式时也能使用
+function withUsageTracking(request: Request, response: Response, targetUrl: URL, attempts: UpstreamAttempt[]): Response {
+  if (!response.ok || !response.body || !isUsageTrackedPath(targetUrl.pathname)) {
+    return response;
+  }
+  
+  const TAIL_SIZE = 32 * 1024;
+  const decoder = new TextDecoder();
+  let tail = "";
+  
+  const body = response.body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk);
+      tail = (tail + decoder.decode(chunk, { stream: true })).slice(-TAIL_SIZE);
+    },
+    flush() {
+      tail += decoder.decode();
+      const usage = extractUsageMetadata(tail);
+      if (!usage) return;
+      
+      // 用量记账涉及多次KV写入，不阻塞响应流的结束
+      recordResponseUsage(request, targetUrl, attempts, usage).catch((error) => {
+        logger.error("记录用量失败", { path: targetUrl.pathname, error });
+      });
+    }
+  }));
+  
+  return new Response(body, {
+    status: response.status,
+    statusText: response.statusText,
+    headers: new Headers(response.headers)
+  });
+}
+
+// 读取指定日期范围内的用量记录
+async function listUsageRecords(from: string, to: string) {
+  const records: { day: string; model: string; ip: string; keyId: string; field: UsageField; value: number }[] = [];
+  
+  if (!kv) {
+    for (const [key, value] of memoryUsage.entries()) {
+      const [day, model, ip, keyId, field] = JSON.parse(key);
+      if (day >= from && day <= to) {
+        records.push({ day, model, ip, keyId, field, value });
+      }
+    }
+    return records;
+  }
+  
+  // 顺便清理超过保留天数的记录（sum 操作不支持设置过期时间）
+  const cutoff = new Date(Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  for await (const entry of kv.list<Deno.KvU64>({ prefix: ["usage"] })) {
+    const [, day, model, ip, keyId, field] = entry.key as string[];
+    if (day < cutoff) {
+      await kv.delete(entry.key);
+      continue;
+    }
+    if (day >= from && day <= to) {
+      records.push({ day, model, ip, keyId, field: field as UsageField, value: Number(entry.value.value) });
+    }
+  }
+  return records;
+}
+
+// 处理用量统计API：GET /api/usage?from=&to=&groupBy=day|model|ip|key
+async function handleUsageApi(request: Request, path: string): Promise<Response> {
+  // 价格表
+  if (path === "/api/usage/prices") {
+    if (request.method === "GET") {
+      return new Response(JSON.stringify({ prices: state.modelPrices }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    if (request.method === "PUT") {
+      let prices: Record<string, ModelPrice>;
+      try {
+        const requestData = await request.json();
+        prices = validateModelPrices(requestData.prices);
+      } catch (error) {
+        return new Response(JSON.stringify({ error: (error as Error).message }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      
+      state.modelPrices = prices;
+      if (kv) {
+        await kv.set(["proxyConfig", "prices"], { prices });
+      }
+      return new Response(JSON.stringify({ success: true, prices }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    return new Response(JSON.stringify({ error: "不支持的方法" }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  if (path !== "/api/usage" || request.method !== "GET") {
+    return new Response(JSON.stringify({ error: "未找到API路由" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  const params = new URL(request.url).searchParams;
+  const today = new Date().toISOString().slice(0, 10);
+  const from = params.get("from") || new Date(Date.now() - 6 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+  const to = params.get("to") || today;
+  const groupBy = params.get("groupBy") || "model";
+  if (!["day", "model", "ip", "key"].includes(groupBy)) {
+    return new Response(JSON.stringify({ error: "groupBy 只能是 day、model、ip 或 key" }), {
+      status: 400,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // 先按 分组+模型 汇总，以便按模型价格计算费用
+  const byGroupAndModel = new Map<string, { group: string; model: string; counts: UsageCounts }>();
+  for (const record of await listUsageRecords(from, to)) {
+    const group = groupBy === "day" ? record.day : groupBy === "ip" ? record.ip : groupBy === "key" ? record.keyId : record.model;
+    const mapKey = JSON.stringify([group, record.model]);
+    let item = byGroupAndModel.get(mapKey);
+    if (!item) {
+      item = { group, model: record.model, counts: { requests: 0, promptTokens: 0, candidatesTokens: 0, thoughtsTokens: 0, totalTokens: 0 } };
+      byGroupAndModel.set(mapKey, item);
+    }
+    item.counts[record.field] += record.value;
+  }
+  
+  const rows = new Map<string, UsageCounts & { group: string; estimatedCost: number; unpricedModels: string[] }>();
+  for (const { group, model, counts } of byGroupAndModel.values()) {
+    let row = rows.get(group);
+    if (!row) {
+      row = { group, requests: 0, promptTokens: 0, candidatesTokens: 0, thoughtsTokens: 0, totalTokens: 0, estimatedCost: 0, unpricedModels: [] };
+      rows.set(group, row);
+    }
+    for (const field of USAGE_FIELDS) {
+      row[field] += counts[field];
+    }
+    const cost = estimateCost(model, counts);
+    if (cost === null) {
+      if (!row.unpricedModels.includes(model)) row.unpricedModels.push(model);
+    } else {
+      row.estimatedCost += cost;
+    }
+  }
+  
+  const sortedRows = [...rows.values()].sort((a, b) => b.totalTokens - a.totalTokens);
+  const totals = sortedRows.reduce((sum, row) => {
+    for (const field of USAGE_FIELDS) sum[field] += row[field];
+    sum.estimatedCost += row.estimatedCost;
+    return sum;
+  }, { requests: 0, promptTokens: 0, candidatesTokens: 0, thoughtsTokens: 0, totalTokens: 0, estimatedCost: 0 });
+  
+  return new Response(JSON.stringify({ from, to, groupBy, rows: sortedRows, totals }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 限流 =====
+// 按代理访问令牌或客户端IP限流：每分钟请求数使用令牌桶，每日token数按UTC自然日累计
+// 计数保存在KV中，多个实例共享同一份额度；未启用KV时退回到内存计数
+
+// 限流计数：rpm 为桶中剩余的请求数，tpd 为当日已用的token数
+interface RateCounter {
+  value: number;
+  updatedAt: number;
+}
+
+type RateCounterKind = "rpm" | "tpd";
+
+// 限流判定结果
+interface RateLimitDecision {
+  allowed: boolean;
+  kind: RateCounterKind;
+  limit: number;
+  remaining: number;
+  resetAt: number; // 额度完全恢复的时间
+  retryAfterMs: number;
+}
+
+// 未启用KV时的内存计数，键为 JSON 序列化的KV键
+const memoryRateCounters = new Map<string, RateCounter>();
+
+// 校验单条限流规则，未提供的字段保持未设置
+function validateRateLimitRule(input: unknown, name: string): Partial<RateLimitRule> {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error(`${name} 必须是对象`);
+  }
+  const rule: Partial<RateLimitRule> = {};
+  for (const field of ["requestsPerMinute", "tokensPerDay"] as const) {
+    const value = (input as Partial<RateLimitRule>)[field];
+    if (value === undefined) continue;
+    if (typeof value !== "number" || value < 0 || !Number.isFinite(value)) {
+      throw new Error(`${name}.${field} 必须是非负数，0 表示不限制`);
+    }
+    rule[field] = Math.floor(value);
+  }
+  return rule;
+}
+
+// 校验限流配置
+function validateRateLimitConfig(input: unknown): RateLimitConfig {
+  if (!input || typeof input !== "object" || Array.isArray(input)) {
+    throw new Error("限流配置必须是对象");
+  }
+  const config = input as Partial<RateLimitConfig>;
+  const overrides: Record<string, Partial<RateLimitRule>> = {};
+  if (config.overrides !== undefined) {
+    if (!config.overrides || typeof config.overrides !== "object" || Array.isArray(config.overrides)) {
+      throw new Error("overrides 必须是对象，键为 ip:<客户端IP>、token:<令牌指纹> 或 key:<虚拟密钥ID>");
+    }
+    for (const [identity, rule] of Object.entries(config.overrides)) {
+      if (!/^(ip|token|key):.+/.test(identity)) {
+        throw new Error(`${identity}: 键必须以 ip:、token: 或 key: 开头`);
+      }
+      overrides[identity] = validateRateLimitRule(rule, identity);
+    }
+  }
+  
+  return {
+    default: { ...DEFAULT_RATE_LIMITS.default, ...validateRateLimitRule(config.default ?? {}, "default") },
+    overrides,
+  };
+}
+
+// 确定限流对象：携带代理访问令牌时按令牌指纹，否则按客户端IP
+async function getRateLimitIdentity(request: Request, url: URL): Promise<string> {
+  const authorization = request.headers.get("authorization") || "";
+  const token = getClientApiKey(request, url) ||
+    (authorization.startsWith("Bearer ") ? authorization.slice("Bearer ".length).trim() : null);
+  if (token && PROXY_ACCESS_TOKENS.some((accessToken) => timingSafeEqual(token, accessToken))) {
+    return `token:${await fingerprintSecret(token)}`;
+  }
+  // 有效的虚拟密钥按密钥ID限流，无效的密钥仍按IP限流
+  if (isVirtualKeySecret(token)) {
+    const virtualKey = await findVirtualKey(token);
+    if (virtualKey) return `key:${virtualKey.id}`;
+  }
+  return `ip:${getClientIP(request)}`;
+}
+
+// 获取限流对象生效的规则，单独配置的字段覆盖默认值
+function getRateLimitRule(identity: string): RateLimitRule {
+  return { ...state.rateLimits.default, ...state.rateLimits.overrides[identity] };
+}
+
+// 下一个UTC零点，即每日token额度重置的时间
+function nextUtcMidnight(now: number): number {
+  const date = new Date(now);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+// 限流计数在KV中的键，每日计数按日期区分
+function rateCounterKey(kind: RateCounterKind, identity: string, now = Date.now()): Deno.KvKey {
+  return kind === "tpd"
+    ? ["rateLimit", kind, identity, new Date(now).toISOString().slice(0, 10)]
+    : ["rateLimit", kind, identity];
+}
+
+// 计数的保留时间：令牌桶两分钟内没有请求即已回满，每日计数保留到次日
+function rateCounterExpireIn(kind: RateCounterKind): number {
+  return kind === "tpd" ? 2 * 24 * 60 * 60 * 1000 : 2 * 60 * 1000;
+}
+
+// 读取并更新限流计数，KV中使用 check 保证多实例并发时不会丢失更新
+// compute 返回 next 为 null 时不写入
+async function updateRateCounter<T>(
+  key: Deno.KvKey,
+  expireIn: number,
+  compute: (current: RateCounter | null) => { next: RateCounter | null; result: T }
+): Promise<T> {
+  if (!kv) {
+    const memoryKey = JSON.stringify(key);
+    const { next, result } = compute(memoryRateCounters.get(memoryKey) ?? null);
+    if (next) memoryRateCounters.set(memoryKey, next);
+    return result;
+  }
+  
+  for (let i = 0; i < 10; i++) {
+    const entry = await kv.get<RateCounter>(key);
+    const { next, result } = compute(entry.value);
+    if (!next) return result;
+    const commitResult = await kv.atomic().check(entry).set(key, next, { expireIn }).commit();
+    if (commitResult.ok) return result;
+  }
+  throw new Error("限流计数更新冲突次数过多");
+}
+
+// 令牌桶中当前剩余的请求数，按经过的时间补充
+function refillRequestTokens(counter: RateCounter | null, limit: number, now: number): number {
+  if (!counter) return limit;
+  return Math.min(limit, counter.value + (now - counter.updatedAt) * limit / 60_000);
+}
+
+// 从每分钟请求数的令牌桶中取出一个令牌
+function takeRequestToken(identity: string, limit: number): Promise<RateLimitDecision> {
+  const refillPerMs = limit / 60_000;
+  return updateRateCounter<RateLimitDecision>(rateCounterKey("rpm", identity), rateCounterExpireIn("rpm"), (current) => {
+    const now = Date.now();
+    const tokens = refillRequestTokens(current, limit, now);
+    if (tokens < 1) {
+      return {
+        next: null,
+        result: {
+          allowed: false, kind: "rpm", limit, remaining: 0,
+          resetAt: now + Math.ceil((limit - tokens) / refillPerMs),
+          retryAfterMs: Math.ceil((1 - tokens) / refillPerMs),
+        },
+      };
+    }
+    return {
+      next: { value: tokens - 1, updatedAt: now },
+      result: {
+        allowed: true, kind: "rpm", limit, remaining: Math.floor(tokens - 1),
+        resetAt: now + Math.ceil((limit - tokens + 1) / refillPerMs),
+        retryAfterMs: 0,
+      },
+    };
+  });
+}
+
+// 检查当日token额度；请求前无法知道会消耗多少token，因此只要还有剩余就放行
+async function checkDailyTokens(identity: string, limit: number): Promise<RateLimitDecision> {
+  const now = Date.now();
+  const key = rateCounterKey("tpd", identity, now);
+  const used = kv
+    ? (await kv.get<RateCounter>(key)).value?.value || 0
+    : memoryRateCounters.get(JSON.stringify(key))?.value || 0;
+  const resetAt = nextUtcMidnight(now);
+  return {
+    allowed: used < limit,
+    kind: "tpd",
+    limit,
+    remaining: Math.max(0, limit - used),
+    resetAt,
+    retryAfterMs: used < limit ? 0 : resetAt - now,
+  };
+}
+
+// 检查请求是否超出限额，返回拒绝的判定结果，未超出时返回 null
+// 限流存储出错时放行，避免KV故障导致所有请求失败
+async function checkRateLimit(request: Request, url: URL): Promise<RateLimitDecision | null> {
+  const identity = await getRateLimitIdentity(request, url);
+  const rule = getRateLimitRule(identity);
+  if (!rule.requestsPerMinute && !rule.tokensPerDay) return null;
+  
+  try {
+    if (rule.tokensPerDay) {
+      const decision = await checkDailyTokens(identity, rule.tokensPerDay);
+      if (!decision.allowed) return decision;
+    }
+    if (rule.requestsPerMinute) {
+      const decision = await takeRequestToken(identity, rule.requestsPerMinute);
+      if (!decision.allowed) return decision;
+    }
+  } catch (error) {
+    logger.error("限流检查失败，放行请求", { error });
+    recordKvFailure("ratelimit");
+  }
+  return null;
+}
+
+// 累计当日消耗的token数，由用量统计在响应结束后调用
+async function consumeDailyTokens(identity: string, tokens: number) {
+  if (tokens <= 0 || !getRateLimitRule(identity).tokensPerDay) return;
+  try {
+    await updateRateCounter(rateCounterKey("tpd", identity), rateCounterExpireIn("tpd"), (current) => ({
+      next: { value: (current?.value || 0) + tokens, updatedAt: Date.now() },
+      result: undefined,
+    }));
+  } catch (error) {
+    logger.error("保存token消耗失败", { error });
+    recordKvFailure("ratelimit");
+  }
+}
+
+// 返回 Gemini 格式的错误响应
+function geminiErrorResponse(code: number, message: string, status: string): Response {
+  return new Response(JSON.stringify({
+    error: { code, message, status }
+  }), {
+    status: code,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*"
+    }
+  });
+}
+
+// 构造超出限额的429响应，OpenAI 兼容接口返回 OpenAI 格式的错误
+function rateLimitedResponse(decision: RateLimitDecision, openAI: boolean): Response {
+  const message = decision.kind === "rpm"
+    ? `请求过于频繁，每分钟最多 ${decision.limit} 次请求`
+    : `今日token额度已用完（${decision.limit}），将于 UTC 零点重置`;
+  const response = openAI
+    ? openAIErrorResponse(429, message, "rate_limit_exceeded")
+    : geminiErrorResponse(429, message, "RESOURCE_EXHAUSTED");
+  
+  response.headers.set("Retry-After", String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000))));
+  response.headers.set("X-RateLimit-Limit", String(decision.limit));
+  response.headers.set("X-RateLimit-Remaining", String(decision.remaining));
+  response.headers.set("X-RateLimit-Reset", String(Math.ceil(decision.resetAt / 1000))); // Unix 时间戳（秒）
+  response.headers.set("X-RateLimit-Scope", decision.kind === "rpm" ? "requests-per-minute" : "tokens-per-day");
+  return response;
+}
+
+// 列出当前的限流计数，令牌桶按当前时间补充后再显示
+async function listRateCounters() {
+  const now = Date.now();
+  const today = new Date(now).toISOString().slice(0, 10);
+  const counters: { kind: RateCounterKind; identity: string; value: number; limit: number; updatedAt: number }[] = [];
+  
+  const entries: [Deno.KvKey, RateCounter][] = [];
+  if (kv) {
+    for await (const entry of kv.list<RateCounter>({ prefix: ["rateLimit"] })) {
+      entries.push([entry.key, entry.value]);
+    }
+  } else {
+    for (const [key, counter] of memoryRateCounters.entries()) {
+      entries.push([JSON.parse(key), counter]);
+    }
+  }
+  
+  for (const [key, counter] of entries) {
+    const [, kind, identity, day] = key as string[];
+    if (kind === "tpd" && day !== today) continue;
+    const rule = getRateLimitRule(identity);
+    if (kind === "rpm") {
+      const limit = rule.requestsPerMinute;
+      counters.push({ kind, identity, value: Math.floor(refillRequestTokens(counter, limit || counter.value, now)), limit, updatedAt: counter.updatedAt });
+    } else {
+      counters.push({ kind: "tpd", identity, value: counter.value, limit: rule.tokensPerDay, updatedAt: counter.updatedAt });
+    }
+  }
+  return counters.sort((a, b) => a.identity.localeCompare(b.identity) || a.kind.localeCompare(b.kind));
+}
+
+// 处理限流API：GET/PUT /api/ratelimits 查看计数和修改配置，PUT/DELETE /api/ratelimits/counters 修改或重置计数
+async function handleRateLimitApi(request: Request, path: string): Promise<Response> {
+  if (path === "/api/ratelimits") {
+    if (request.method === "GET") {
+      return new Response(JSON.stringify({ config: state.rateLimits, counters: await listRateCounters() }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    if (request.method === "PUT") {
+      let config: RateLimitConfig;
+      try {
+        const requestData = await request.json();
+        config = validateRateLimitConfig(requestData.config);
+      } catch (error) {
+        return new Response(JSON.stringify({ error: (error as Error).message }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      
+      state.rateLimits = config;
+      if (kv) {
+        await kv.set(["proxyConfig", "rateLimits"], { config });
+      }
+      logger.info(`限流配置已更新: 每分钟 ${config.default.requestsPerMinute || "不限"} 次请求，每日 ${config.default.tokensPerDay || "不限"} token`);
+      
+      return new Response(JSON.stringify({ success: true, config }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+  
+  if (path === "/api/ratelimits/counters") {
+    if (request.method === "PUT") {
+      let kind: RateCounterKind, identity: string, value: number;
+      try {
+        const requestData = await request.json();
+        ({ kind, identity, value } = requestData);
+        if (kind !== "rpm" && kind !== "tpd") throw new Error("kind 只能是 rpm 或 tpd");
+        if (typeof identity !== "string" || !identity) throw new Error("缺少 identity");
+        if (typeof value !== "number" || value < 0 || !Number.isFinite(value)) throw new Error("value 必须是非负数");
+      } catch (error) {
+        return new Response(JSON.stringify({ error: (error as Error).message }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      
+      await updateRateCounter(rateCounterKey(kind, identity), rateCounterExpireIn(kind), () => ({
+        next: { value, updatedAt: Date.now() },
+        result: undefined,
+      }));
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    
+    if (request.method === "DELETE") {
+      const params = new URL(request.url).searchParams;
+      const kind = params.get("kind");
+      const identity = params.get("identity");
+      if ((kind !== "rpm" && kind !== "tpd") || !identity) {
+        return new Response(JSON.stringify({ error: "需要提供 kind（rpm 或 tpd）和 identity 参数" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
+        });
+      }
+      
+      const key = rateCounterKey(kind, identity);
+      if (kv) {
+        await kv.delete(key);
+      } else {
+        memoryRateCounters.delete(JSON.stringify(key));
+      }
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 监控指标 =====
+
+// 单次代理请求的耗时和流量，指标和日志共用
+interface RequestTiming {
+  ttfbMs: number; // 从收到请求到拿到上游响应头的耗时
+  totalMs: number; // 从收到请求到响应体传输结束的总耗时
+  upstreamStatus?: number; // 最后一次上游尝试返回的状态码，缓存命中时为空
+  requestBytes?: number; // 请求体大小（字节），流式请求体无法统计
+  responseBytes?: number; // 返回给客户端的响应体大小（字节）
+}
+
+// 代理转发过程中收集的信息，由 handleProxy 在响应结束后汇总到指标
+interface ProxyObservation {
+  startedAt: number;
+  route: string;
+  model: string;
+  attempts: UpstreamAttempt[];
+  cacheStatus?: CacheStatus;
+  ttfbMs?: number;
+  requestBytes?: number;
+}
+
+// 直方图：buckets 与 counts 一一对应，counts 为非累计值，输出时再累加
+interface Histogram {
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+const LATENCY_BUCKETS = [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120]; // 延迟直方图分桶（秒）
+
+// 指标只保存在内存中，进程重启后清零，由 Prometheus 负责计算增量
+const metrics = {
+  startedAt: Date.now(),
+  inFlight: 0,
+  requests: new Map<string, number>(), // 键为 JSON 序列化的 [route, model, status]
+  duration: new Map<string, Histogram>(), // 键为路由名称
+  ttfb: new Map<string, Histogram>(),
+  requestBytes: new Map<string, number>(),
+  responseBytes: new Map<string, number>(),
+  retries: new Map<string, number>(),
+  upstreamErrors: new Map<string, number>(),
+  upstreamTimeouts: new Map<string, number>(), // 键为超时阶段
+  cache: new Map<string, number>(), // 键为 HIT / MISS
+  rateLimited: new Map<string, number>(), // 键为 rpm / tpd
+  kvFailures: new Map<string, number>(), // 键为出错的KV操作类别
+};
+
+function incrementMetric(map: Map<string, number>, key: string, value = 1) {
+  map.set(key, (map.get(key) || 0) + value);
+}
+
+function observeHistogram(map: Map<string, Histogram>, key: string, seconds: number) {
+  let histogram = map.get(key);
+  if (!histogram) {
+    histogram = { counts: LATENCY_BUCKETS.map(() => 0), sum: 0, count: 0 };
+    map.set(key, histogram);
+  }
+  const index = LATENCY_BUCKETS.findIndex((bound) => seconds <= bound);
+  if (index >= 0) histogram.counts[index]++;
+  histogram.sum += seconds;
+  histogram.count++;
+}
+
+// 记录一次KV操作失败，operation 为 logs / usage / cache / attachments / ratelimit 等
+function recordKvFailure(operation: string) {
+  incrementMetric(metrics.kvFailures, operation);
+}
+
+// 根据转发过程中收集的信息计算本次请求的耗时和流量
+function buildRequestTiming(observation: ProxyObservation, responseBytes?: number): RequestTiming {
+  const totalMs = Date.now() - observation.startedAt;
+  return {
+    ttfbMs: observation.ttfbMs ?? totalMs,
+    totalMs,
+    upstreamStatus: observation.attempts.at(-1)?.status,
+    requestBytes: observation.requestBytes,
+    responseBytes,
+  };
+}
+
+// 代理请求结束（响应体传输完毕、客户端取消或出错）时汇总指标
+function recordProxyMetrics(observation: ProxyObservation, status: number | "error", timing: RequestTiming) {
+  const { route, model } = observation;
+  incrementMetric(metrics.requests, JSON.stringify([route, model, String(status)]));
+  observeHistogram(metrics.duration, route, timing.totalMs / 1000);
+  observeHistogram(metrics.ttfb, route, timing.ttfbMs / 1000);
+  if (timing.requestBytes) incrementMetric(metrics.requestBytes, route, timing.requestBytes);
+  if (timing.responseBytes) incrementMetric(metrics.responseBytes, route, timing.responseBytes);
+  if (observation.attempts.length > 1) incrementMetric(metrics.retries, route, observation.attempts.length - 1);
+  const upstreamErrors = observation.attempts.filter((attempt) => attempt.error).length;
+  if (upstreamErrors) incrementMetric(metrics.upstreamErrors, route, upstreamErrors);
+  for (const attempt of observation.attempts) {
+    if (attempt.timeout) incrementMetric(metrics.upstreamTimeouts, attempt.timeout);
+  }
+  if (observation.cacheStatus) incrementMetric(metrics.cache, observation.cacheStatus);
+}
+
+// 包装响应体，统计实际传给客户端的字节数，流结束时回调一次
+function observeResponseBody(
+  body: ReadableStream<Uint8Array>,
+  onFinish: (bytes: number, outcome: StreamOutcome) => void,
+  expectedBytes?: number
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  let bytes = 0;
+  let finished = false;
+  const finish = (outcome: StreamOutcome) => {
+    if (finished) return;
+    finished = true;
+    onFinish(bytes, outcome);
+  };
+  
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (finished) return;
+        if (done) {
+          controller.close();
+          finish("completed");
+        } else {
+          bytes += value.byteLength;
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        if (finished) return;
+        controller.error(error);
+        finish("error");
+      }
+    },
+    async cancel(reason) {
+      finish(expectedBytes !== undefined && bytes >= expectedBytes ? "completed" : "cancelled");
+      await reader.cancel(reason);
+    }
+  });
+}
+
+// 转义 Prometheus 标签值
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Record<string, string>): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+}
+
+// 按 Prometheus 文本格式输出全部指标
+function renderMetrics(): string {
+  const lines: string[] = [];
+  const family = (name: string, type: string, help: string) => {
+    lines.push(`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`);
+  };
+  const counter = (name: string, help: string, map: Map<string, number>, label: string) => {
+    family(name, "counter", help);
+    for (const [key, value] of map) {
+      lines.push(`${name}${formatLabels({ [label]: key })} ${value}`);
+    }
+  };
+  const histogram = (name: string, help: string, map: Map<string, Histogram>) => {
+    family(name, "histogram", help);
+    for (const [route, data] of map) {
+      let cumulative = 0;
+      LATENCY_BUCKETS.forEach((bound, i) => {
+        cumulative += data.counts[i];
+        lines.push(`${name}_bucket${formatLabels({ route, le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${name}_bucket${formatLabels({ route, le: "+Inf" })} ${data.count}`);
+      lines.push(`${name}_sum${formatLabels({ route })} ${data.sum}`);
+      lines.push(`${name}_count${formatLabels({ route })} ${data.count}`);
+    }
+  };
+  
+  family("gemini_proxy_requests_total", "counter", "代理请求数，按路由、模型和响应状态码统计");
+  for (const [key, value] of metrics.requests) {
+    const [route, model, status] = JSON.parse(key) as string[];
+    lines.push(`gemini_proxy_requests_total${formatLabels({ route, model, status })} ${value}`);
+  }
+  histogram("gemini_proxy_request_duration_seconds", "从收到请求到响应体传输结束的耗时", metrics.duration);
+  histogram("gemini_proxy_time_to_first_byte_seconds", "从收到请求到拿到上游响应头的耗时", metrics.ttfb);
+  family("gemini_proxy_requests_in_flight", "gauge", "正在处理的代理请求数");
+  lines.push(`gemini_proxy_requests_in_flight ${metrics.inFlight}`);
+  counter("gemini_proxy_request_bytes_total", "请求体字节数", metrics.requestBytes, "route");
+  counter("gemini_proxy_response_bytes_total", "返回给客户端的响应体字节数", metrics.responseBytes, "route");
+  counter("gemini_proxy_upstream_retries_total", "上游重试次数（含切换密钥）", metrics.retries, "route");
+  counter("gemini_proxy_upstream_errors_total", "上游网络错误次数", metrics.upstreamErrors, "route");
+  counter("gemini_proxy_upstream_timeouts_total", "上游超时次数，按超时阶段统计", metrics.upstreamTimeouts, "phase");
+  counter("gemini_proxy_cache_total", "响应缓存命中情况", metrics.cache, "result");
+  counter("gemini_proxy_rate_limited_total", "被限流拒绝的请求数", metrics.rateLimited, "kind");
+  counter("gemini_proxy_kv_failures_total", "KV操作失败次数", metrics.kvFailures, "operation");
+  family("gemini_proxy_debug_mode", "gauge", "是否开启调试模式");
+  lines.push(`gemini_proxy_debug_mode ${state.isDebugMode ? 1 : 0}`);
+  family("gemini_proxy_start_time_seconds", "gauge", "进程启动时间");
+  lines.push(`gemini_proxy_start_time_seconds ${Math.floor(metrics.startedAt / 1000)}`);
+  
+  return lines.join("\n") + "\n";
+}
+
+// ===== 管理员认证 =====
+
+// 常量时间比较字符串，避免通过响应时间猜测口令
+function timingSafeEqual(a: string, b: string): boolean {
+  const aBytes = new TextEncoder().encode(a);
+  const bBytes = new TextEncoder().encode(b);
+  let diff = aBytes.length ^ bBytes.length;
+  for (let i = 0; i < aBytes.length; i++) {
+    diff |= aBytes[i] ^ (bBytes[i % bBytes.length] || 0);
+  }
+  return diff === 0;
+}
+
+let sessionKeyPromise: Promise<CryptoKey> | null = null;
+
+// 获取用于会话签名的HMAC密钥（只导入一次）
+function getSessionKey(): Promise<CryptoKey> {
+  if (!sessionKeyPromise) {
+    sessionKeyPromise = crypto.subtle.importKey(
+      "raw",
+      new TextEncoder().encode(SESSION_SECRET),
+      { name: "HMAC", hash: "SHA-256" },
+      false,
+      ["sign"]
+    );
+  }
+  return sessionKeyPromise;
+}
+
+// 对会话内容签名，返回十六进制签名
+async function signSessionPayload(payload: string): Promise<string> {
+  const key = await getSessionKey();
+  const signature = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+// 生成会话Cookie值，格式为 "过期时间.签名"
+async function createSessionValue(): Promise<string> {
+  const expiresAt = Date.now() + SESSION_TTL_MS;
+  return `${expiresAt}.${await signSessionPayload(String(expiresAt))}`;
+}
+
+// 从请求头中读取指定Cookie
+function getCookie(request: Request, name: string): string | null {
+  const cookieHeader = request.headers.get("cookie");
+  if (!cookieHeader) return null;
+  for (const part of cookieHeader.split(";")) {
+    const [key, ...rest] = part.trim().split("=");
+    if (key === name) {
+      return rest.join("=");
+    }
+  }
+  return null;
+}
+
+// 校验会话Cookie的签名和有效期
+async function verifySessionCookie(request: Request): Promise<boolean> {
+  const value = getCookie(request, SESSION_COOKIE_NAME);
+  if (!value) return false;
+  
+  const [expiresAt, signature] = value.split(".");
+  if (!expiresAt || !signature || Number(expiresAt) < Date.now()) {
+    return false;
+  }
+  return timingSafeEqual(signature, await signSessionPayload(expiresAt));
+}
+
+// 请求的连接来源地址，由服务器处理函数写入，未设置管理员口令时用于判断是否为本机访问
+const requestRemoteAddrs = new WeakMap<Request, Deno.Addr>();
+
+// 判断请求是否直接来自本机回环地址；带转发头的请求视为经过反向代理，不算本机访问
+function isLoopbackRequest(request: Request): boolean {
+  if (request.headers.has("x-forwarded-for") || request.headers.has("forwarded") || request.headers.has("x-real-ip")) {
+    return false;
+  }
+  const addr = requestRemoteAddrs.get(request);
+  if (!addr || addr.transport !== "tcp") return false;
+  return /^127\./.test(addr.hostname) || addr.hostname === "::1" || /^::ffff:127\./i.test(addr.hostname);
+}
+
+// 检查请求是否具有管理员权限：支持 Bearer 令牌和登录会话Cookie；未设置口令时仅允许本机直接访问
+async function isAdminAuthorized(request: Request): Promise<boolean> {
+  if (!ADMIN_TOKEN) return isLoopbackRequest(request);
+  
+  const authorization = request.headers.get("authorization") || "";
+  if (authorization.startsWith("Bearer ")) {
+    return timingSafeEqual(authorization.slice("Bearer ".length).trim(), ADMIN_TOKEN);
+  }
+  
+  return await verifySessionCookie(request);
+}
+
+// 未认证的API请求返回401
+function unauthorizedResponse(): Response {
+  return new Response(JSON.stringify({ error: "未授权，请先登录或提供管理员令牌" }), {
+    status: 401,
+    headers: {
+      "Content-Type": "application/json",
+      "WWW-Authenticate": 'Bearer realm="proxy-admin"'
+    }
+  });
+}
+
+// 登录页面
+function getLoginHtml(errorMessage = ""): string {
+  return `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>登录 - 请求调试器</title>
+  <style>
+    body {
+      font-family: 'PingFang SC', 'Microsoft YaHei', sans-serif;
+      color: #333;
+      max-width: 360px;
+      margin: 100px auto;
+      padding: 20px;
+    }
+    h1 {
+      text-align: center;
+      margin-bottom: 20px;
+    }
+    input {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 10px;
+      margin-bottom: 15px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+    }
+    button {
+      width: 100%;
+      background-color: #4CAF50;
+      color: white;
+      border: none;
+      padding: 10px 15px;
+      font-size: 16px;
+      cursor: pointer;
+      border-radius: 4px;
+    }
+    button:hover {
+      background-color: #45a049;
+    }
+    .error {
+      color: #f44336;
+      margin-bottom: 15px;
+      text-align: center;
+    }
+  </style>
+</head>
+<body>
+  <h1>请求调试器</h1>
+  ${errorMessage ? `<div class="error">${errorMessage}</div>` : ""}
+  <form method="POST" action="/login">
+    <input type="password" name="password" placeholder="请输入管理员口令" autofocus required>
+    <button type="submit">登录</button>
+  </form>
+</body>
+</html>
+  `;
+}
+
+// 处理登录和登出
+async function handleAuthRoute(request: Request, path: string): Promise<Response> {
+  if (path === "/logout") {
+    return new Response(null, {
+      status: 303,
+      headers: {
+        "Location": "/login",
+        "Set-Cookie": `${SESSION_COOKIE_NAME}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`
+      }
+    });
+  }
+  
+  if (request.method === "POST") {
+    let password = "";
+    try {
+      const form = await request.formData();
+      password = String(form.get("password") || "");
+    } catch {
+      // 表单解析失败按口令错误处理
+    }
+    
+    if (!ADMIN_TOKEN || !timingSafeEqual(password, ADMIN_TOKEN)) {
+      logger.warn("管理员登录失败", { clientIP: getClientIP(request) });
+      return new Response(getLoginHtml("口令错误，请重试"), {
+        status: 401,
+        headers: { "Content-Type": "text/html; charset=utf-8" }
+      });
+    }
+    
+    const secure = new URL(request.url).protocol === "https:" ? "; Secure" : "";
+    return new Response(null, {
+      status: 303,
+      headers: {
+        "Location": "/debug",
+        "Set-Cookie": `${SESSION_COOKIE_NAME}=${await createSessionValue()}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${SESSION_TTL_MS / 1000}${secure}`
+      }
+    });
+  }
+  
+  return new Response(getLoginHtml(), {
+    headers: { "Content-Type": "text/html; charset=utf-8" }
+  });
+}
+
+// 处理OPTIONS预检请求
+function handleOptionsRequest(): Response {
+  return new Response(null, {
+    status: 204,
+    headers: {
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, DELETE, OPTIONS, PUT, PATCH",
+      "Access-Control-Allow-Headers": "Content-Type, Authorization, x-goog-api-key, x-proxy-cache, x-request-id",
+      "Access-Control-Max-Age": "86400",
+    }
+  });
+}
+
+// HTML首页
+function getHtmlIndex(): string {
+  return `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>请求调试器</title>
+  <style>
+    body {
+      font-family: 'PingFang SC', 'Microsoft YaHei', sans-serif;
+      line-height: 1.6;
+      color: #333;
+      max-width: 1200px;
+      margin: 0 auto;
+      padding: 20px;
+    }
+    h1 {
+      text-align: center;
+      margin-bottom: 20px;
+    }
+    .status-bar {
+      background-color: #f8f8f8;
+      border-radius: 4px;
+      padding: 15px;
+      margin-bottom: 20px;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+    .status-indicator {
+      display: flex;
+      align-items: center;
+    }
+    .status-dot {
+      width: 12px;
+      height: 12px;
+      border-radius: 50%;
+      background-color: #999;
+      margin-right: 8px;
+    }
+    .status-dot.active {
+      background-color: #4CAF50;
+    }
+    .status-dot.connecting {
+      background-color: #FF9800;
+    }
+    .stream-dot {
+      margin-left: 20px;
+    }
+    .route-tag.in-progress {
+      background-color: #fff3e0;
+    }
+    .status-info {
+      font-size: 0.9em;
+      color: #666;
+    }
+    .controls {
+      display: flex;
+      justify-content: space-between;
+      margin-bottom: 20px;
+    }
+    button {
+      background-color: #4CAF50;
+      color: white;
+      border: none;
+      padding: 10px 15px;
+      text-align: center;
+      text-decoration: none;
+      display: inline-block;
+      font-size: 16px;
+      margin: 4px 2px;
+      cursor: pointer;
+      border-radius: 4px;
+      transition: background-color 0.3s;
+    }
+    button:hover {
+      background-color: #45a049;
+    }
+    button:disabled {
+      background-color: #cccccc;
+      cursor: not-allowed;
+    }
+    button.delete {
+      background-color: #f44336;
+    }
+    button.delete:hover {
+      background-color: #d32f2f;
+    }
+    button.toggle-off {
+      background-color: #2196F3;
+    }
+    button.toggle-off:hover {
+      background-color: #0b7dda;
+    }
+    .log-list {
+      margin-bottom: 20px;
+    }
+    .log-item {
+      border: 1px solid #ddd;
+      padding: 15px;
+      margin-bottom: 15px;
+      border-radius: 4px;
+    }
+    .log-header {
+      display: flex;
+      justify-content: space-between;
+      border-bottom: 1px solid #eee;
+      padding-bottom: 10px;
+      margin-bottom: 10px;
+    }
+    .method {
+      font-weight: bold;
+      padding: 2px 8px;
+      border-radius: 4px;
+      color: white;
+    }
+    .method.get { background-color: #61affe; }
+    .method.post { background-color: #49cc90; }
+    .method.put { background-color: #fca130; }
+    .method.delete { background-color: #f93e3e; }
+    .method.options { background-color: #0d5aa7; }
+    .method.head { background-color: #9012fe; }
+    .method.patch { background-color: #50e3c2; }
+    .log-body {
+      background-color: #f8f8f8;
+      padding: 10px;
+      border-radius: 4px;
+      white-space: pre-wrap;
+      overflow-x: auto;
+      max-height: 300px;
+      overflow-y: auto;
+    }
+    .timestamp {
+      color: #666;
+      font-size: 0.9em;
+    }
+    .log-url {
+      word-break: break-all;
+      margin: 5px 0;
+    }
+    .log-headers {
+      margin-top: 10px;
+      cursor: pointer;
+    }
+    .log-headers-content {
+      display: none;
+      background-color: #f8f8f8;
+      padding: 10px;
+      border-radius: 4px;
+      margin-top: 5px;
+    }
+    .empty-state {
+      text-align: center;
+      padding: 50px;
+      color: #666;
+    }
+    .loading {
+      text-align: center;
+      padding: 20px;
+      color: #666;
+    }
+    /* 响应式设计 */
+    @media (max-width: 768px) {
+      .log-header {
+        flex-direction: column;
+      }
+      .controls {
+        flex-direction: column;
+      }
+      button {
+        margin-bottom: 10px;
+      }
+    }
+    /* 复制按钮样式优化 */
+    .copy-button {
+      position: absolute;
+      top: 5px;
+      right: 25px; /* 移到滚动条左侧 */
+      background-color: #e9f5ff;
+      border: 1px solid #c8e1ff;
+      border-radius: 4px;
+      padding: 3px 8px;
+      font-size: 12px;
+      cursor: pointer;
+      opacity: 0.7;
+      transition: all 0.3s;
+      display: flex;
+      align-items: center;
+      color: #0366d6;
+    }
+    
+    .copy-button:hover {
+      opacity: 1;
+      background-color: #daeeff;
+    }
+    
+    /* 添加复制图标 */
+    .copy-button::before {
+      content: "📋";
+      margin-right: 4px;
+      font-size: 14px;
+    }
+    
+    /* 复制成功提示优化 */
+    .copy-feedback {
+      position: absolute;
+      top: 5px;
+      right: 90px; /* 调整位置 */
+      background-color: #28a745;
+      color: white;
+      padding: 3px 10px;
+      border-radius: 4px;
+      font-size: 12px;
+      opacity: 0;
+      transition: opacity 0.3s;
+      box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+    }
+    
+    .copy-feedback.show {
+      opacity: 1;
+    }
+    
+    /* 在悬停时才显示按钮 */
+    .log-body-container {
+      position: relative;
+    }
+    
+    .log-body-container .copy-button {
+      opacity: 0.3;
+    }
+    
+    .log-body-container:hover .copy-button {
+      opacity: 0.8;
+    }
+
+    .status-info-container {
+      display: flex;
+      flex-direction: column;
+      align-items: flex-end;
+      gap: 8px;
+    }
+
+    .proxy-target-form {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+
+    .proxy-target-form input {
+      width: 300px;
+      padding: 6px 10px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+    }
+
+    .proxy-target-form button {
+      padding: 6px 12px;
+      margin: 0;
+    }
+
+    .panel {
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      padding: 15px;
+      margin-bottom: 20px;
+    }
+
+    .panel h3 {
+      margin: 0 0 10px 0;
+    }
+
+    .panel table {
+      width: 100%;
+      border-collapse: collapse;
+      margin-bottom: 10px;
+      font-size: 0.9em;
+    }
+
+    .panel th, .panel td {
+      text-align: left;
+      padding: 6px 8px;
+      border-bottom: 1px solid #eee;
+    }
+
+    .panel .config-editor {
+      width: 100%;
+      box-sizing: border-box;
+      font-family: monospace;
+      font-size: 13px;
+      padding: 8px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      margin: 8px 0;
+    }
+
+    .panel .counter-input {
+      width: 120px;
+    }
+
+    .log-filter {
+      display: flex;
+      flex-wrap: wrap;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 20px;
+    }
+
+    .log-filter input, .log-filter select {
+      padding: 6px 10px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+    }
+
+    .log-filter button {
+      padding: 6px 12px;
+      margin: 0;
+    }
+
+    .load-more {
+      text-align: center;
+      margin-bottom: 20px;
+    }
+
+    .attempt-list {
+      font-size: 0.85em;
+      color: #666;
+      margin: 5px 0;
+    }
+
+    .route-tag {
+      background-color: #ede7f6;
+      padding: 2px 6px;
+      border-radius: 4px;
+      font-size: 0.85em;
+      margin-left: 8px;
+    }
+
+    .panel td button {
+      padding: 3px 8px;
+      margin: 0;
+      font-size: 12px;
+    }
+
+    /* 响应式设计调整 */
+    @media (max-width: 768px) {
+      .status-bar {
+        flex-direction: column;
+        align-items: flex-start;
+      }
+      
+      .status-info-container {
+        width: 100%;
+        align-items: flex-start;
+        margin-top: 10px;
+      }
+      
+      .proxy-target-form {
+        width: 100%;
+      }
+      
+      .proxy-target-form input {
+        flex-grow: 1;
+      }
+    }
+  </style>
+</head>
+<body>
+  <h1>请求调试器</h1>
+  
+  <div class="status-bar">
+    <div class="status-indicator">
+      <div id="statusDot" class="status-dot"></div>
+      <span id="statusText">调试模式已关闭</span>
+      <div id="streamDot" class="status-dot stream-dot"></div>
+      <span id="streamText">实时日志未连接</span>
+    </div>
+    <div class="status-info-container">
+      <div class="status-info" id="statusInfo">
+        反代目标: ${TARGET_URL}
+      </div>
+      <div class="proxy-target-form">
+        <input type="text" id="proxyTargetInput" placeholder="输入新的代理目标URL" value="${TARGET_URL}">
+        <button id="saveProxyTargetBtn">保存</button>
+      </div>
+    </div>
+  </div>
+  
+  <div class="controls">
+    <div>
+      <button id="toggleBtn">开启调试</button>
+      <button id="refreshBtn">刷新</button>
+      <button id="clearBtn" class="delete">清除所有日志</button>
+    </div>
+    ${ADMIN_TOKEN ? `
+    <form method="POST" action="/logout">
+      <button type="submit" class="toggle-off">退出登录</button>
+    </form>` : ""}
+  </div>
+  
+  <div class="panel">
+    <h3>用量统计</h3>
+    <div class="log-filter">
+      <input type="date" id="usageFrom" title="开始日期">
+      <input type="date" id="usageTo" title="结束日期">
+      <select id="usageGroupBy">
+        <option value="model">按模型</option>
+        <option value="day">按日期</option>
+        <option value="ip">按客户端IP</option>
+        <option value="key">按密钥指纹</option>
+      </select>
+      <button id="loadUsageBtn">查询</button>
+    </div>
+    <table>
+      <thead>
+        <tr><th>分组</th><th>请求数</th><th>输入token</th><th>输出token</th><th>思考token</th><th>总token</th><th>估算费用 (USD)</th></tr>
+      </thead>
+      <tbody id="usageTable"></tbody>
+    </table>
+    <div class="status-info">价格表（美元/百万token，按模型名精确匹配或最长前缀匹配）:</div>
+    <textarea id="pricesInput" class="config-editor" rows="6"></textarea>
+    <button id="savePricesBtn">保存价格表</button>
+  </div>
+  
+  <div class="panel">
+    <h3>路由表</h3>
+    <div class="status-info">按顺序匹配路径前缀或Host，未匹配任何路由时转发到默认反代目标。每条路由支持 name、pathPrefix、host、target、stripPrefix、rewrite（{"from": 正则, "to": 替换}）、headers，以及开启响应缓存的 cache 和 cacheTtlMs，和覆盖默认上游超时的 timeouts（{"connectMs": 收到响应头, "firstByteMs": 第一个数据块, "idleMs": 数据块间隔}，单位毫秒，0 表示不限制）。</div>
+    <textarea id="routesInput" class="config-editor" rows="8" placeholder='[{"name": "vertex", "pathPrefix": "/vertex", "target": "https://us-central1-aiplatform.googleapis.com"}]'></textarea>
+    <button id="saveRoutesBtn">保存路由表</button>
+  </div>
+  
+  <div class="panel">
+    <h3>重试策略</h3>
+    <div class="status-info">上游返回 retryOnStatus 中的状态码或网络出错时，按指数退避重试。maxAttempts 包含首次请求，设为 1 即关闭重试。</div>
+    <textarea id="retryPolicyInput" class="config-editor" rows="8"></textarea>
+    <button id="saveRetryPolicyBtn">保存重试策略</button>
+  </div>
+  
+  <div class="panel">
+    <h3>模型策略</h3>
+    <div class="status-info">aliases 把请求中的模型别名改写为实际模型（同时改写路径和请求体中的 model 字段）；改写后的模型命中 deny 或不在 allow 中时返回 403。allow 和 deny 支持 * 通配符，allow 为空表示不限制。</div>
+    <textarea id="modelPolicyInput" class="config-editor" rows="8" placeholder='{"allow": ["gemini-2.5-*"], "deny": ["*-exp*"], "aliases": {"team-default": "gemini-2.5-flash"}}'></textarea>
+    <button id="saveModelPolicyBtn">保存模型策略</button>
+  </div>
+  
+  <div class="panel">
+    <h3>降级链</h3>
+    <div class="status-info">模型返回 503 或 RESOURCE_EXHAUSTED 的 429（已按重试策略重试后）、或网络出错时，依次尝试降级目标。键为模型（支持 * 通配符），值为降级目标：模型名称，或 {"model": 模型, "target": 上游地址}，target 只替换协议、主机和端口。响应头 X-Proxy-Model 标明实际应答的模型。</div>
+    <textarea id="fallbackChainsInput" class="config-editor" rows="8" placeholder='{"gemini-2.5-pro": ["gemini-2.5-flash", {"model": "gemini-2.5-flash", "target": "https://backup.example.com"}]}'></textarea>
+    <button id="saveFallbackChainsBtn">保存降级链</button>
+  </div>
+  
+  <div class="panel">
+    <h3>改写规则</h3>
+    <div class="status-info">path 和 model 匹配的规则都会按顺序应用（* 为通配符，model 为模型策略改写后的实际模型）。requestHeaders/responseHeaders 支持 set（添加或覆盖）和 remove；requestBody/responseBody 支持 set（覆盖）、setDefault（字段不存在时写入）和 remove，字段用 JSONPath 表示，SSE 响应逐个事件改写。可以在下方填写示例内容测试尚未保存的规则。</div>
+    <textarea id="rewriteRulesInput" class="config-editor" rows="10" placeholder='[{"name": "team-defaults", "path": "/v1beta/models/*", "requestHeaders": {"set": {"X-Team": "ml"}}, "requestBody": {"set": {"$.generationConfig.temperature": 0.2}, "setDefault": {"$.systemInstruction": {"parts": [{"text": "请使用中文回答"}]}}}, "responseBody": {"remove": ["$.modelVersion"]}}]'></textarea>
+    <button id="saveRewriteRulesBtn">保存改写规则</button>
+    <div class="proxy-target-form">
+      <input type="text" id="rewriteTestPath" placeholder="测试路径，如 /v1beta/models/gemini-2.5-flash:generateContent">
+      <select id="rewriteTestDirection">
+        <option value="request">请求</option>
+        <option value="response">响应</option>
+      </select>
+      <button id="testRewriteBtn">测试</button>
+    </div>
+    <textarea id="rewriteTestBody" class="config-editor" rows="6" placeholder="示例请求体或响应体（JSON 或 SSE）"></textarea>
+    <textarea id="rewriteTestResult" class="config-editor" rows="8" readonly placeholder="测试结果"></textarea>
+  </div>
+  
+  <div class="panel">
+    <h3>日志采集规则</h3>
+    <div class="status-info">按顺序匹配，第一条满足全部条件的规则决定记录方式：mode 为 full（完整记录）、headers（只记录请求头、状态码和耗时）或 none（不记录）。条件支持 path、model、clientIP（* 为通配符）、status（如 ["429", "5xx", "error"]）、header（如 "X-Debug-Capture: 1"）和 sampleRate（采样百分比）。没有规则命中时，开启调试模式则完整记录，否则不记录。</div>
+    <textarea id="captureRulesInput" class="config-editor" rows="8" placeholder='[{"name": "errors", "mode": "full", "status": ["error"]}, {"name": "sample", "mode": "headers", "sampleRate": 10}, {"mode": "none"}]'></textarea>
+    <button id="saveCaptureRulesBtn">保存采集规则</button>
+  </div>
+  
+  <div class="panel">
+    <h3>响应缓存</h3>
+    <div class="status-info" id="cacheInfo">加载中...</div>
+    <table>
+      <thead>
+        <tr><th>缓存键</th><th>路径</th><th>大小</th><th>写入时间</th><th>过期时间</th><th></th></tr>
+      </thead>
+      <tbody id="cacheTable"></tbody>
+    </table>
+    <div class="proxy-target-form">
+      <input type="text" id="purgeCacheModelInput" placeholder="模型名称，留空则清空全部缓存">
+      <button id="purgeCacheBtn" class="delete">清除缓存</button>
+      <button id="refreshCacheBtn">刷新</button>
+    </div>
+  </div>
+  
+  <div class="panel">
+    <h3>限流</h3>
+    <div class="status-info">携带代理访问令牌的请求按令牌指纹限流，携带虚拟密钥的请求按密钥ID限流，其余按客户端IP限流。requestsPerMinute 为令牌桶容量（每分钟补满），tokensPerDay 按UTC日期累计，0 表示不限制。overrides 的键为 ip:&lt;客户端IP&gt;、token:&lt;令牌指纹&gt; 或 key:&lt;虚拟密钥ID&gt;。</div>
+    <textarea id="rateLimitsInput" class="config-editor" rows="8"></textarea>
+    <button id="saveRateLimitsBtn">保存限流配置</button>
+    <button id="refreshRateCountersBtn">刷新计数</button>
+    <table>
+      <thead>
+        <tr><th>限流对象</th><th>类型</th><th>当前值</th><th>限额</th><th>更新时间</th><th></th></tr>
+      </thead>
+      <tbody id="rateCountersTable"></tbody>
+    </table>
+  </div>
+  
+  <div class="panel">
+    <h3>密钥池</h3>
+    <div class="status-info" id="keyPoolInfo">加载中...</div>
+    <table>
+      <thead>
+        <tr><th>指纹</th><th>密钥</th><th>来源</th><th>状态</th><th>失败次数</th><th></th></tr>
+      </thead>
+      <tbody id="keyPoolTable"></tbody>
+    </table>
+    <div class="proxy-target-form">
+      <input type="text" id="newPoolKeysInput" placeholder="添加上游密钥，多个用逗号分隔">
+      <button id="addPoolKeysBtn">添加</button>
+    </div>
+  </div>
+  
+  <div class="panel">
+    <h3>虚拟密钥</h3>
+    <div class="status-info">客户端可以用虚拟密钥（vk- 开头）代替真实密钥，转发时替换为指定的上游密钥或密钥池中的密钥。允许的模型和路径支持 * 通配符，多个用逗号分隔，留空表示不限制。</div>
+    <table>
+      <thead>
+        <tr><th>ID</th><th>标签</th><th>密钥</th><th>上游</th><th>允许的模型</th><th>允许的路径</th><th>过期时间</th><th>最后使用</th><th>状态</th><th></th></tr>
+      </thead>
+      <tbody id="virtualKeysTable"></tbody>
+    </table>
+    <div class="proxy-target-form">
+      <input type="text" id="newVirtualKeyLabel" placeholder="标签，如 ci-bot">
+      <input type="text" id="newVirtualKeyModels" placeholder="允许的模型，如 gemini-2.5-*">
+      <input type="text" id="newVirtualKeyPaths" placeholder="允许的路径，如 /v1beta/models/*">
+      <input type="text" id="newVirtualKeyUpstream" placeholder="上游密钥，留空使用密钥池">
+      <input type="datetime-local" id="newVirtualKeyExpires" title="过期时间，留空表示不过期">
+      <button id="createVirtualKeyBtn">创建</button>
+    </div>
+  </div>
+  
+  <form id="logFilterForm" class="log-filter" onsubmit="event.preventDefault(); loadLogs();">
+    <input type="text" id="filterStatus" placeholder="状态码，如 4xx、500、400-499、error">
+    <select id="filterMethod">
+      <option value="">全部方法</option>
+      <option>GET</option>
+      <option>POST</option>
+      <option>PUT</option>
+      <option>PATCH</option>
+      <option>DELETE</option>
+    </select>
+    <input type="text" id="filterPath" placeholder="路径包含">
+    <input type="text" id="filterModel" placeholder="模型名称">
+    <input type="text" id="filterIP" placeholder="客户端IP">
+    <input type="datetime-local" id="filterSince" title="开始时间">
+    <input type="datetime-local" id="filterUntil" title="结束时间">
+    <input type="text" id="filterQuery" placeholder="在请求/响应体中搜索">
+    <button type="submit">筛选</button>
+    <button type="button" class="toggle-off" onclick="resetLogFilter()">重置</button>
+    <span id="logTotal" class="status-info"></span>
+  </form>
+  
+  <div class="log-filter">
+    <span class="status-info">按当前筛选条件导出:</span>
+    <button type="button" onclick="exportLogs('har')">导出 HAR</button>
+    <button type="button" onclick="exportLogs('ndjson')">导出 NDJSON</button>
+    <button type="button" onclick="exportLogs('curl')">导出 curl 脚本</button>
+    <input type="file" id="importLogsInput" accept=".ndjson,.jsonl,application/x-ndjson">
+    <button type="button" id="importLogsBtn">导入 NDJSON</button>
+  </div>
+  
+  <div id="logList" class="log-list">
+    <div class="empty-state">调试模式已关闭，开启后将在此显示请求日志</div>
+  </div>
+  <div class="load-more">
+    <button id="loadMoreBtn" style="display: none;">加载更多</button>
+  </div>
+
+  <script>
+    // 调用管理API，会话失效时跳转到登录页
+    async function apiFetch(url, options) {
+      const response = await fetch(url, options);
+      if (response.status === 401) {
+        window.location.href = '/login';
+        throw new Error('未授权');
+      }
+      return response;
+    }
+    
+    // 格式化时间戳
+    function formatTimestamp(timestamp) {
+      const date = new Date(timestamp);
+      return date.toLocaleString('zh-CN', {
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit',
+        hour12: false
+      });
+    }
+    
+    // 转义插入到HTML中的文本，日志内容来自客户端和上游，不能直接作为HTML
+    function escapeHtml(value) {
+      return String(value ?? '').replace(/[&<>"']/g, (char) => ({
+        '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;'
+      })[char]);
+    }
+    
+    // 格式化请求体
+    function formatBody(body) {
+      if (!body) return '无内容';
+      
+      try {
+        // 尝试解析为JSON并格式化
+        const parsed = JSON.parse(body);
+        return JSON.stringify(parsed, null, 2);
+      } catch (e) {
+        // 如果不是JSON，直接返回
+        return body;
+      }
+    }
+    
+    // 获取调试状态
+    async function getDebugStatus() {
+      try {
+        const response = await apiFetch('/api/debug/status');
+        return await response.json();
+      } catch (error) {
+        console.error('获取调试状态失败:', error);
+        return { isDebugMode: false };
+      }
+    }
+    
+    // 切换调试模式
+    async function toggleDebugMode() {
+      const toggleBtn = document.getElementById('toggleBtn');
+      toggleBtn.disabled = true;
+      
+      try {
+        const response = await apiFetch('/api/debug/toggle', {
+          method: 'POST'
+        });
+        
+        const result = await response.json();
+        updateDebugStatus(result);
+        loadLogs();
+        
+      } catch (error) {
+        console.error('切换调试模式失败:', error);
+        alert('操作失败，请重试');
+      } finally {
+        toggleBtn.disabled = false;
+      }
+    }
+    
+    // 更新调试状态UI
+    function updateDebugStatus(status) {
+      const statusDot = document.getElementById('statusDot');
+      const statusText = document.getElementById('statusText');
+      const toggleBtn = document.getElementById('toggleBtn');
+      const statusInfo = document.getElementById('statusInfo');
+      
+      if (status.isDebugMode) {
+        statusDot.classList.add('active');
+        statusText.textContent = '调试模式已开启';
+        toggleBtn.textContent = '关闭调试';
+        toggleBtn.classList.add('toggle-off');
+        
+        statusInfo.innerHTML = \`反代目标: \${status.targetUrl}<br>已记录 \${status.logCount} 个请求\`;
+      } else {
+        statusDot.classList.remove('active');
+        statusText.textContent = '调试模式已关闭';
+        toggleBtn.textContent = '开启调试';
+        toggleBtn.classList.remove('toggle-off');
+        statusInfo.innerHTML = \`反代目标: \${status.targetUrl}\`;
+      }
+      
+      // 同时更新输入框的值，确保它与当前代理目标一致
+      document.getElementById('proxyTargetInput').value = status.targetUrl || TARGET_URL;
+    }
+    
+    // 复制文本到剪贴板
+    function copyToClipboard(text, buttonId) {
+      navigator.clipboard.writeText(text).then(() => {
+        // 显示复制成功提示
+        const button = document.getElementById(buttonId);
+        const feedback = button.nextElementSibling;
+        feedback.classList.add('show');
+        
+        // 2秒后隐藏提示
+        setTimeout(() => {
+          feedback.classList.remove('show');
+        }, 2000);
+      }).catch(err => {
+        console.error('复制失败:', err);
+        alert('复制失败，请手动复制');
+      });
+    }
+    
+    let nextLogCursor = null; // 下一页日志的游标
+    let renderedLogCount = 0; // 已渲染的日志数量，用于生成唯一的元素ID
+    let logStream = null; // 实时日志的 EventSource 连接
+    
+    // 根据筛选表单生成日志查询参数
+    function buildLogQuery(cursor) {
+      const params = new URLSearchParams();
+      const fields = {
+        status: 'filterStatus',
+        method: 'filterMethod',
+        path: 'filterPath',
+        model: 'filterModel',
+        ip: 'filterIP',
+        q: 'filterQuery'
+      };
+      for (const [name, id] of Object.entries(fields)) {
+        const value = document.getElementById(id).value.trim();
+        if (value) params.set(name, value);
+      }
+      
+      const since = document.getElementById('filterSince').value;
+      const until = document.getElementById('filterUntil').value;
+      if (since) params.set('since', String(new Date(since).getTime()));
+      if (until) params.set('until', String(new Date(until).getTime()));
+      if (cursor) params.set('cursor', cursor);
+      return params.toString();
+    }
+    
+    // 渲染单条日志
+    function renderLogItem(log) {
+      const index = renderedLogCount++;
+      const methodClass = escapeHtml(log.method.toLowerCase());
+      const headersId = \`headers-\${index}\`;
+      const requestBodyId = \`request-body-\${index}\`;
+      const responseBodyId = \`response-body-\${index}\`;
+      const requestCopyBtnId = \`copy-request-\${index}\`;
+      const responseCopyBtnId = \`copy-response-\${index}\`;
+      
+      return \`
+        <div class="log-item" data-log-id="\${escapeHtml(log.id)}">
+          <div class="log-header">
+            <span class="method \${methodClass}">\${escapeHtml(log.method)}</span>
+            <span class="timestamp">
+              \${formatTimestamp(log.timestamp)}
+              <a href="/debug/log/\${escapeHtml(encodeURIComponent(log.id))}" target="_blank">详情</a>
+            </span>
+          </div>
+          <div class="log-url">\${escapeHtml(log.path)}\${log.route ? \`<span class="route-tag">路由: \${escapeHtml(log.route)}</span>\` : ''}\${log.model ? \`<span class="route-tag">模型: \${escapeHtml(log.model)}\${log.requestedModel && log.requestedModel !== log.model ? ' ← ' + escapeHtml(log.requestedModel) : ''}</span>\` : ''}\${log.cache ? \`<span class="route-tag">缓存: \${escapeHtml(log.cache)}</span>\` : ''}\${log.keyLabel ? \`<span class="route-tag">密钥: \${escapeHtml(log.keyLabel)}</span>\` : ''}\${log.attempts && log.attempts.some(a => a.timeout) ? '<span class="route-tag">超时</span>' : ''}\${log.inProgress ? '<span class="route-tag in-progress">进行中</span>' : ''}\${log.imported ? '<span class="route-tag">导入</span>' : ''}</div>
+          <div class="log-headers" onclick="toggleHeaders('\${headersId}')">
+            请求头 (点击展开)
+            <div id="\${headersId}" class="log-headers-content">
+              <pre>\${escapeHtml(JSON.stringify(log.headers, null, 2))}</pre>
+            </div>
+          </div>
+          \${log.attempts && log.attempts.length > 1 ? \`
+            <div class="attempt-list">
+              上游尝试 \${log.attempts.length} 次:
+              \${log.attempts.map(a => escapeHtml(\`第\${a.attempt}次 \${a.status || a.error || '未知'}\${a.timeout ? ' [超时: ' + a.timeout + ']' : ''}\${a.keyId ? ' [密钥 ' + a.keyId + ']' : ''} (\${a.durationMs}ms\${a.retryDelayMs !== undefined ? '，等待 ' + a.retryDelayMs + 'ms' : ''})\`)).join('；')}
+            </div>
+          \` : ''}
+          <div class="log-body-label">原始请求体:</div>
+          <div class="log-body-container">
+            <pre id="\${requestBodyId}" class="log-body">\${escapeHtml(formatBody(log.body))}</pre>
+            <button id="\${requestCopyBtnId}" class="copy-button" onclick="copyToClipboard(document.getElementById('\${requestBodyId}').textContent, '\${requestCopyBtnId}')">复制</button>
+            <div class="copy-feedback">已复制!</div>
+          </div>
+          
+          <!-- 添加响应内容部分 -->
+          \${log.responseBody ? \`
+            <div class="log-body-label" style="margin-top: 15px; color: #2196F3; font-weight: bold;">
+              目标服务器响应内容: 
+              <span style="background-color: \${log.responseStatus && log.responseStatus >= 200 && log.responseStatus < 300 ? '#e8f5e9' : '#ffebee'}; padding: 3px 6px; border-radius: 4px; font-size: 0.85em;">
+                状态码: \${escapeHtml(log.responseStatus || '未知')}
+              </span>
+              \${log.streamStatus === 'cancelled' ? '<span style="background-color: #fff3e0; padding: 3px 6px; border-radius: 4px; font-size: 0.85em;">客户端已取消</span>' : ''}
+              \${log.streamStatus === 'error' ? '<span style="background-color: #ffebee; padding: 3px 6px; border-radius: 4px; font-size: 0.85em;">响应流出错</span>' : ''}
+            </div>
+            <div class="log-body-container">
+              <pre id="\${responseBodyId}" class="log-body" style="border-left: 4px solid #2196F3;">\${escapeHtml(formatBody(log.responseBody))}</pre>
+              <button id="\${responseCopyBtnId}" class="copy-button" onclick="copyToClipboard(document.getElementById('\${responseBodyId}').textContent, '\${responseCopyBtnId}')">复制</button>
+              <div class="copy-feedback">已复制!</div>
+            </div>
+          \` : ''}
+        </div>
+      \`;
+    }
+    
+    // 更新"加载更多"按钮和匹配数量
+    function updateLogPager(response) {
+      nextLogCursor = response.headers.get('X-Next-Cursor');
+      document.getElementById('loadMoreBtn').style.display = nextLogCursor ? 'inline-block' : 'none';
+      document.getElementById('logTotal').textContent = \`共 \${response.headers.get('X-Total-Count') || 0} 条匹配日志\`;
+    }
+    
+    // 加载日志（第一页）
+    async function loadLogs() {
+      const logList = document.getElementById('logList');
+      
+      try {
+        const statusResponse = await apiFetch('/api/debug/status');
+        const status = await statusResponse.json();
+        
+        // 按当前筛选条件重新订阅实时日志
+        connectLogStream();
+        
+        if (!status.isDebugMode) {
+          logList.innerHTML = '<div class="empty-state">调试模式已关闭，开启后将在此显示请求日志</div>';
+          document.getElementById('loadMoreBtn').style.display = 'none';
+          document.getElementById('logTotal').textContent = '';
+          return;
+        }
+        
+        logList.innerHTML = '<div class="loading">加载中...</div>';
+        
+        const response = await apiFetch('/api/logs?' + buildLogQuery());
+        const logs = await response.json();
+        updateLogPager(response);
+        
+        if (logs.length === 0) {
+          logList.innerHTML = '<div class="empty-state">暂无请求日志</div>';
+          return;
+        }
+        
+        renderedLogCount = 0;
+        logList.innerHTML = logs.map(renderLogItem).join('');
+      } catch (error) {
+        logList.innerHTML = '<div class="empty-state">加载失败，请重试</div>';
+        console.error('加载日志失败:', error);
+      }
+    }
+    
+    // 订阅实时日志，新日志插入到列表顶部，进行中的日志在保存后被替换
+    function connectLogStream() {
+      if (logStream) {
+        logStream.close();
+      }
+      
+      const streamDot = document.getElementById('streamDot');
+      const streamText = document.getElementById('streamText');
+      const setStreamState = (state, text) => {
+        streamDot.classList.toggle('active', state === 'open');
+        streamDot.classList.toggle('connecting', state === 'connecting');
+        streamText.textContent = text;
+      };
+      
+      setStreamState('connecting', '实时日志连接中...');
+      logStream = new EventSource('/api/logs/stream?' + buildLogQuery());
+      logStream.addEventListener('ready', () => setStreamState('open', '实时日志已连接'));
+      logStream.onerror = () => {
+        if (logStream.readyState === EventSource.CLOSED) {
+          setStreamState('closed', '实时日志已断开');
+        } else {
+          setStreamState('connecting', '实时日志重连中...');
+        }
+      };
+      logStream.addEventListener('pending', (event) => upsertLogItem({ ...JSON.parse(event.data), inProgress: true }));
+      logStream.addEventListener('log', (event) => upsertLogItem(JSON.parse(event.data)));
+    }
+    
+    // 插入或替换一条日志
+    function upsertLogItem(log) {
+      const logList = document.getElementById('logList');
+      const existing = logList.querySelector(\`[data-log-id="\${CSS.escape(log.id)}"]\`);
+      if (existing) {
+        existing.outerHTML = renderLogItem(log);
+        return;
+      }
+      
+      logList.querySelectorAll('.empty-state, .loading').forEach(element => element.remove());
+      logList.insertAdjacentHTML('afterbegin', renderLogItem(log));
+    }
+    
+    // 加载下一页日志
+    async function loadMoreLogs() {
+      if (!nextLogCursor) return;
+      const loadMoreBtn = document.getElementById('loadMoreBtn');
+      loadMoreBtn.disabled = true;
+      
+      try {
+        const response = await apiFetch('/api/logs?' + buildLogQuery(nextLogCursor));
+        const logs = await response.json();
+        updateLogPager(response);
+        document.getElementById('logList').insertAdjacentHTML('beforeend', logs.map(renderLogItem).join(''));
+      } catch (error) {
+        alert('加载失败，请重试');
+        console.error('加载更多日志失败:', error);
+      } finally {
+        loadMoreBtn.disabled = false;
+      }
+    }
+    
+    // 重置筛选条件
+    function resetLogFilter() {
+      document.getElementById('logFilterForm').reset();
+      loadLogs();
+    }
+    
+    // 按当前筛选条件导出日志
+    function exportLogs(format) {
+      const params = new URLSearchParams(buildLogQuery());
+      params.set('format', format);
+      window.location.href = '/api/logs/export?' + params.toString();
+    }
+    
+    // 导入 NDJSON 格式的日志
+    async function importLogs() {
+      const input = document.getElementById('importLogsInput');
+      if (!input.files || input.files.length === 0) {
+        alert('请先选择要导入的文件');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/logs/import', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/x-ndjson'
+          },
+          body: await input.files[0].text()
+        });
+        const result = await response.json();
+        if (result.success) {
+          alert(\`已导入 \${result.imported} 条日志\${result.skipped ? '，跳过 ' + result.skipped + ' 条' : ''}\`);
+          input.value = '';
+          loadLogs();
+        } else {
+          alert(\`导入失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('导入日志失败:', error);
+      }
+    }
+    
+    // 切换请求头显示
+    function toggleHeaders(id) {
+      const element = document.getElementById(id);
+      if (element.style.display === 'block') {
+        element.style.display = 'none';
+      } else {
+        element.style.display = 'block';
+      }
+    }
+    
+    // 清除所有日志
+    async function clearLogs() {
+      if (!confirm('确定要清除所有日志吗？此操作不可撤销。')) {
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/logs', {
+          method: 'DELETE'
+        });
+        
+        if (response.ok) {
+          alert('日志已清除');
+          loadLogs();
+          
+          // 更新状态信息
+          const statusResponse = await apiFetch('/api/debug/status');
+          const status = await statusResponse.json();
+          updateDebugStatus(status);
+        } else {
+          alert('清除日志失败');
+        }
+      } catch (error) {
+        alert('清除日志失败');
+        console.error('清除日志失败:', error);
+      }
+    }
+    
+    // 加载用量统计
+    async function loadUsage() {
+      const params = new URLSearchParams({ groupBy: document.getElementById('usageGroupBy').value });
+      const from = document.getElementById('usageFrom').value;
+      const to = document.getElementById('usageTo').value;
+      if (from) params.set('from', from);
+      if (to) params.set('to', to);
+      
+      try {
+        const response = await apiFetch('/api/usage?' + params.toString());
+        const usage = await response.json();
+        const formatRow = (label, row) => \`
+          <tr>
+            <td>\${label}</td>
+            <td>\${row.requests}</td>
+            <td>\${row.promptTokens}</td>
+            <td>\${row.candidatesTokens}</td>
+            <td>\${row.thoughtsTokens}</td>
+            <td>\${row.totalTokens}</td>
+            <td>\${row.estimatedCost.toFixed(4)}\${row.unpricedModels && row.unpricedModels.length ? ' (未定价: ' + escapeHtml(row.unpricedModels.join(', ')) + ')' : ''}</td>
+          </tr>
+        \`;
+        
+        document.getElementById('usageTable').innerHTML = usage.rows.length === 0
+          ? '<tr><td colspan="7">所选时间范围内没有用量记录</td></tr>'
+          : usage.rows.map(row => formatRow(escapeHtml(row.group), row)).join('') + formatRow('<strong>合计</strong>', usage.totals);
+      } catch (error) {
+        console.error('加载用量统计失败:', error);
+      }
+    }
+    
+    // 加载价格表
+    async function loadPrices() {
+      try {
+        const response = await apiFetch('/api/usage/prices');
+        const result = await response.json();
+        document.getElementById('pricesInput').value = JSON.stringify(result.prices, null, 2);
+      } catch (error) {
+        console.error('加载价格表失败:', error);
+      }
+    }
+    
+    // 保存价格表
+    async function savePrices() {
+      let prices;
+      try {
+        prices = JSON.parse(document.getElementById('pricesInput').value || '{}');
+      } catch (e) {
+        alert('价格表不是有效的JSON');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/usage/prices', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ prices })
+        });
+        const result = await response.json();
+        if (result.success) {
+          alert('价格表已保存');
+          loadUsage();
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存价格表失败:', error);
+      }
+    }
+    
+    // 加载路由表
+    async function loadRoutes() {
+      try {
+        const response = await apiFetch('/api/proxy/routes');
+        const result = await response.json();
+        document.getElementById('routesInput').value = JSON.stringify(result.routes, null, 2);
+      } catch (error) {
+        console.error('加载路由表失败:', error);
+      }
+    }
+    
+    // 保存路由表
+    async function saveRoutes() {
+      let routes;
+      try {
+        routes = JSON.parse(document.getElementById('routesInput').value || '[]');
+      } catch (e) {
+        alert('路由表不是有效的JSON');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/proxy/routes', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ routes })
+        });
+        const result = await response.json();
+        if (result.success) {
+          document.getElementById('routesInput').value = JSON.stringify(result.routes, null, 2);
+          alert('路由表已保存');
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存路由表失败:', error);
+      }
+    }
+    
+    // 加载重试策略
+    async function loadRetryPolicy() {
+      try {
+        const response = await apiFetch('/api/proxy/retry');
+        const result = await response.json();
+        document.getElementById('retryPolicyInput').value = JSON.stringify(result.policy, null, 2);
+      } catch (error) {
+        console.error('加载重试策略失败:', error);
+      }
+    }
+    
+    // 保存重试策略
+    async function saveRetryPolicy() {
+      let policy;
+      try {
+        policy = JSON.parse(document.getElementById('retryPolicyInput').value || '{}');
+      } catch (e) {
+        alert('重试策略不是有效的JSON');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/proxy/retry', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ policy })
+        });
+        const result = await response.json();
+        if (result.success) {
+          document.getElementById('retryPolicyInput').value = JSON.stringify(result.policy, null, 2);
+          alert('重试策略已保存');
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存重试策略失败:', error);
+      }
+    }
+    
+    // 加载模型策略
+    async function loadModelPolicy() {
+      try {
+        const response = await apiFetch('/api/proxy/models');
+        const result = await response.json();
+        document.getElementById('modelPolicyInput').value = JSON.stringify(result.policy, null, 2);
+      } catch (error) {
+        console.error('加载模型策略失败:', error);
+      }
+    }
+    
+    // 保存模型策略
+    async function saveModelPolicy() {
+      let policy;
+      try {
+        policy = JSON.parse(document.getElementById('modelPolicyInput').value || '{}');
+      } catch (e) {
+        alert('模型策略不是有效的JSON');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/proxy/models', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ policy })
+        });
+        const result = await response.json();
+        if (result.success) {
+          document.getElementById('modelPolicyInput').value = JSON.stringify(result.policy, null, 2);
+          alert('模型策略已保存');
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存模型策略失败:', error);
+      }
+    }
+    
+    // 加载降级链
+    async function loadFallbackChains() {
+      try {
+        const response = await apiFetch('/api/proxy/fallback');
+        const result = await response.json();
+        document.getElementById('fallbackChainsInput').value = JSON.stringify(result.chains, null, 2);
+      } catch (error) {
+        console.error('加载降级链失败:', error);
+      }
+    }
+    
+    // 保存降级链
+    async function saveFallbackChains() {
+      let chains;
+      try {
+        chains = JSON.parse(document.getElementById('fallbackChainsInput').value || '{}');
+      } catch (e) {
+        alert('降级链不是有效的JSON');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/proxy/fallback', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ chains })
+        });
+        const result = await response.json();
+        if (result.success) {
+          document.getElementById('fallbackChainsInput').value = JSON.stringify(result.chains, null, 2);
+          alert('降级链已保存');
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存降级链失败:', error);
+      }
+    }
+    
+    // 加载改写规则
+    async function loadRewriteRules() {
+      try {
+        const response = await apiFetch('/api/proxy/rewrite');
+        const result = await response.json();
+        document.getElementById('rewriteRulesInput').value = JSON.stringify(result.rules, null, 2);
+      } catch (error) {
+        console.error('加载改写规则失败:', error);
+      }
+    }
+    
+    // 读取编辑框中的改写规则，不是有效JSON时返回 undefined
+    function readRewriteRulesInput() {
+      try {
+        return JSON.parse(document.getElementById('rewriteRulesInput').value || '[]');
+      } catch (e) {
+        alert('改写规则不是有效的JSON');
+        return undefined;
+      }
+    }
+    
+    // 保存改写规则
+    async function saveRewriteRules() {
+      const rules = readRewriteRulesInput();
+      if (rules === undefined) return;
+      
+      try {
+        const response = await apiFetch('/api/proxy/rewrite', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ rules })
+        });
+        const result = await response.json();
+        if (result.success) {
+          document.getElementById('rewriteRulesInput').value = JSON.stringify(result.rules, null, 2);
+          alert('改写规则已保存');
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存改写规则失败:', error);
+      }
+    }
+    
+    // 用示例内容测试编辑框中的改写规则
+    async function testRewriteRules() {
+      const rules = readRewriteRulesInput();
+      if (rules === undefined) return;
+      
+      const resultInput = document.getElementById('rewriteTestResult');
+      try {
+        const response = await apiFetch('/api/proxy/rewrite/test', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            rules,
+            path: document.getElementById('rewriteTestPath').value.trim(),
+            direction: document.getElementById('rewriteTestDirection').value,
+            body: document.getElementById('rewriteTestBody').value
+          })
+        });
+        const result = await response.json();
+        if (!response.ok) {
+          resultInput.value = \`测试失败: \${result.error}\`;
+          return;
+        }
+        
+        let body = result.body;
+        try {
+          body = JSON.stringify(JSON.parse(body), null, 2);
+        } catch (e) {
+          // SSE 等非JSON内容原样显示
+        }
+        resultInput.value = [
+          \`匹配的规则: \${result.matched.length > 0 ? result.matched.join(', ') : '无'}\`,
+          \`\${document.getElementById('rewriteTestDirection').value === 'request' ? '请求头' : '响应头'}: \${JSON.stringify(result.headers, null, 2)}\`,
+          body
+        ].join('\\n\\n');
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('测试改写规则失败:', error);
+      }
+    }
+    
+    // 加载采集规则
+    async function loadCaptureRules() {
+      try {
+        const response = await apiFetch('/api/proxy/capture');
+        const result = await response.json();
+        document.getElementById('captureRulesInput').value = JSON.stringify(result.rules, null, 2);
+      } catch (error) {
+        console.error('加载采集规则失败:', error);
+      }
+    }
+    
+    // 保存采集规则
+    async function saveCaptureRules() {
+      let rules;
+      try {
+        rules = JSON.parse(document.getElementById('captureRulesInput').value || '[]');
+      } catch (e) {
+        alert('采集规则不是有效的JSON');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/proxy/capture', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ rules })
+        });
+        const result = await response.json();
+        if (result.success) {
+          document.getElementById('captureRulesInput').value = JSON.stringify(result.rules, null, 2);
+          alert('采集规则已保存');
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存采集规则失败:', error);
+      }
+    }
+    
+    // 加载响应缓存
+    async function loadCache() {
+      try {
+        const response = await apiFetch('/api/cache');
+        const result = await response.json();
+        
+        document.getElementById('cacheInfo').textContent =
+          \`共 \${result.entries.length} 条，\${(result.totalSize / 1024).toFixed(1)} KB / \${(result.maxSize / 1024 / 1024).toFixed(0)} MB，默认有效期 \${result.defaultTtlMs / 1000} 秒\`;
+        
+        const table = document.getElementById('cacheTable');
+        table.innerHTML = '';
+        if (result.entries.length === 0) {
+          table.innerHTML = '<tr><td colspan="6">暂无缓存</td></tr>';
+          return;
+        }
+        for (const entry of result.entries) {
+          const row = document.createElement('tr');
+          for (const text of [entry.hash.slice(0, 12), entry.path, \`\${(entry.size / 1024).toFixed(1)} KB\`, formatTimestamp(entry.createdAt), formatTimestamp(entry.expiresAt)]) {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.appendChild(cell);
+          }
+          const actions = document.createElement('td');
+          const deleteBtn = document.createElement('button');
+          deleteBtn.textContent = '删除';
+          deleteBtn.className = 'delete';
+          deleteBtn.addEventListener('click', () => purgeCache({ hash: entry.hash }));
+          actions.appendChild(deleteBtn);
+          row.appendChild(actions);
+          table.appendChild(row);
+        }
+      } catch (error) {
+        console.error('加载响应缓存失败:', error);
+      }
+    }
+    
+    // 清除响应缓存，可按缓存键或模型只删除部分条目
+    async function purgeCache(filter = {}) {
+      if (!filter.hash) {
+        const model = document.getElementById('purgeCacheModelInput').value.trim();
+        if (model) filter.model = model;
+        if (!confirm(model ? \`确定要清除模型 \${model} 的缓存吗？\` : '确定要清空全部缓存吗？')) {
+          return;
+        }
+      }
+      
+      try {
+        const response = await apiFetch('/api/cache?' + new URLSearchParams(filter).toString(), {
+          method: 'DELETE'
+        });
+        const result = await response.json();
+        if (!result.success) {
+          alert(\`清除失败: \${result.error}\`);
+        }
+        loadCache();
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('清除响应缓存失败:', error);
+      }
+    }
+    
+    // 加载限流配置和计数
+    async function loadRateLimits() {
+      try {
+        const response = await apiFetch('/api/ratelimits');
+        const result = await response.json();
+        document.getElementById('rateLimitsInput').value = JSON.stringify(result.config, null, 2);
+        
+        const table = document.getElementById('rateCountersTable');
+        table.innerHTML = '';
+        if (result.counters.length === 0) {
+          table.innerHTML = '<tr><td colspan="6">暂无计数</td></tr>';
+          return;
+        }
+        for (const counter of result.counters) {
+          const row = document.createElement('tr');
+          const cells = [
+            counter.identity,
+            counter.kind === 'rpm' ? '每分钟剩余请求' : '今日已用token',
+            null,
+            counter.limit || '不限',
+            formatTimestamp(counter.updatedAt)
+          ];
+          for (const text of cells) {
+            const cell = document.createElement('td');
+            if (text === null) {
+              const input = document.createElement('input');
+              input.type = 'number';
+              input.min = '0';
+              input.value = counter.value;
+              input.className = 'counter-input';
+              cell.appendChild(input);
+            } else {
+              cell.textContent = text;
+            }
+            row.appendChild(cell);
+          }
+          
+          const actions = document.createElement('td');
+          const saveBtn = document.createElement('button');
+          saveBtn.textContent = '修改';
+          saveBtn.addEventListener('click', () => saveRateCounter(counter.kind, counter.identity, Number(row.querySelector('input').value)));
+          const resetBtn = document.createElement('button');
+          resetBtn.textContent = '重置';
+          resetBtn.className = 'delete';
+          resetBtn.addEventListener('click', () => resetRateCounter(counter.kind, counter.identity));
+          actions.append(saveBtn, resetBtn);
+          row.appendChild(actions);
+          table.appendChild(row);
+        }
+      } catch (error) {
+        console.error('加载限流信息失败:', error);
+      }
+    }
+    
+    // 保存限流配置
+    async function saveRateLimits() {
+      let config;
+      try {
+        config = JSON.parse(document.getElementById('rateLimitsInput').value || '{}');
+      } catch (e) {
+        alert('限流配置不是有效的JSON');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/ratelimits', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ config })
+        });
+        const result = await response.json();
+        if (result.success) {
+          alert('限流配置已保存');
+          loadRateLimits();
+        } else {
+          alert(\`保存失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存限流配置失败:', error);
+      }
+    }
+    
+    // 修改单个限流计数
+    async function saveRateCounter(kind, identity, value) {
+      try {
+        const response = await apiFetch('/api/ratelimits/counters', {
+          method: 'PUT',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ kind, identity, value })
+        });
+        const result = await response.json();
+        if (!result.success) {
+          alert(\`修改失败: \${result.error}\`);
+        }
+        loadRateLimits();
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('修改限流计数失败:', error);
+      }
+    }
+    
+    // 重置单个限流计数
+    async function resetRateCounter(kind, identity) {
+      if (!confirm(\`确定要重置 \${identity} 的计数吗？\`)) {
+        return;
+      }
+      
+      try {
+        const response = await apiFetch(\`/api/ratelimits/counters?kind=\${kind}&identity=\${encodeURIComponent(identity)}\`, {
+          method: 'DELETE'
+        });
+        const result = await response.json();
+        if (!result.success) {
+          alert(\`重置失败: \${result.error}\`);
+        }
+        loadRateLimits();
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('重置限流计数失败:', error);
+      }
+    }
+    
+    // 加载密钥池状态
+    async function loadKeyPool() {
+      try {
+        const response = await apiFetch('/api/keypool');
+        const pool = await response.json();
+        
+        document.getElementById('keyPoolInfo').textContent =
+          \`轮换策略: \${pool.strategy}，冷却时间: \${pool.cooldownMs / 1000} 秒，访问令牌数: \${pool.accessTokenCount}\`;
+        
+        document.getElementById('keyPoolTable').innerHTML = pool.keys.length === 0
+          ? '<tr><td colspan="6">密钥池为空</td></tr>'
+          : pool.keys.map(key => \`
+            <tr>
+              <td>\${key.id}</td>
+              <td>\${key.maskedKey}</td>
+              <td>\${key.source === 'env' ? '环境变量' : 'KV'}</td>
+              <td>\${key.coolingDown ? '冷却至 ' + formatTimestamp(key.cooldownUntil) : '可用'}</td>
+              <td>\${key.failures}</td>
+              <td>\${key.source === 'kv' ? \`<button class="delete" onclick="deletePoolKey('\${key.id}')">删除</button>\` : ''}</td>
+            </tr>
+          \`).join('');
+      } catch (error) {
+        console.error('加载密钥池失败:', error);
+      }
+    }
+    
+    // 添加密钥到密钥池
+    async function addPoolKeys() {
+      const input = document.getElementById('newPoolKeysInput');
+      const keys = input.value.split(',').map(key => key.trim()).filter(Boolean);
+      if (keys.length === 0) {
+        alert('请输入至少一个密钥');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/keypool', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ keys })
+        });
+        const result = await response.json();
+        if (result.success) {
+          input.value = '';
+          loadKeyPool();
+        } else {
+          alert(\`添加失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('添加密钥失败:', error);
+      }
+    }
+    
+    // 从密钥池删除密钥
+    async function deletePoolKey(id) {
+      if (!confirm('确定要删除该密钥吗？')) {
+        return;
+      }
+      
+      try {
+        const response = await apiFetch(\`/api/keypool?id=\${encodeURIComponent(id)}\`, {
+          method: 'DELETE'
+        });
+        const result = await response.json();
+        if (!result.success) {
+          alert(\`删除失败: \${result.error}\`);
+        }
+        loadKeyPool();
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('删除密钥失败:', error);
+      }
+    }
+    
+    // 把逗号分隔的输入拆分为数组，空输入返回 undefined
+    function splitListInput(value) {
+      const items = value.split(',').map(item => item.trim()).filter(Boolean);
+      return items.length > 0 ? items : undefined;
+    }
+    
+    // 加载虚拟密钥
+    async function loadVirtualKeys() {
+      try {
+        const response = await apiFetch('/api/keys');
+        const result = await response.json();
+        
+        const table = document.getElementById('virtualKeysTable');
+        table.innerHTML = '';
+        if (result.keys.length === 0) {
+          table.innerHTML = '<tr><td colspan="10">暂无虚拟密钥</td></tr>';
+          return;
+        }
+        const now = Date.now();
+        for (const key of result.keys) {
+          const status = key.revokedAt ? '已吊销'
+            : key.expiresAt && key.expiresAt <= now ? '已过期'
+            : '有效';
+          const row = document.createElement('tr');
+          const cells = [
+            key.id,
+            key.label,
+            key.hint,
+            key.upstream === 'pool' ? '密钥池' : key.upstream,
+            key.allowedModels ? key.allowedModels.join(', ') : '不限',
+            key.allowedPaths ? key.allowedPaths.join(', ') : '不限',
+            key.expiresAt ? formatTimestamp(key.expiresAt) : '不过期',
+            key.lastUsedAt ? formatTimestamp(key.lastUsedAt) : '-',
+            status
+          ];
+          for (const text of cells) {
+            const cell = document.createElement('td');
+            cell.textContent = text;
+            row.appendChild(cell);
+          }
+          
+          const actions = document.createElement('td');
+          if (!key.revokedAt) {
+            const expireBtn = document.createElement('button');
+            expireBtn.textContent = '设置过期';
+            expireBtn.addEventListener('click', () => setVirtualKeyExpiry(key.id));
+            const revokeBtn = document.createElement('button');
+            revokeBtn.textContent = '吊销';
+            revokeBtn.className = 'delete';
+            revokeBtn.addEventListener('click', () => revokeVirtualKey(key.id));
+            actions.append(expireBtn, revokeBtn);
+          }
+          row.appendChild(actions);
+          table.appendChild(row);
+        }
+      } catch (error) {
+        console.error('加载虚拟密钥失败:', error);
+      }
+    }
+    
+    // 创建虚拟密钥
+    async function createVirtualKey() {
+      const label = document.getElementById('newVirtualKeyLabel').value.trim();
+      if (!label) {
+        alert('请输入标签');
+        return;
+      }
+      const expires = document.getElementById('newVirtualKeyExpires').value;
+      
+      try {
+        const response = await apiFetch('/api/keys', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            label,
+            allowedModels: splitListInput(document.getElementById('newVirtualKeyModels').value),
+            allowedPaths: splitListInput(document.getElementById('newVirtualKeyPaths').value),
+            upstreamKey: document.getElementById('newVirtualKeyUpstream').value.trim() || undefined,
+            expiresAt: expires ? new Date(expires).getTime() : undefined
+          })
+        });
+        const result = await response.json();
+        if (result.success) {
+          for (const id of ['newVirtualKeyLabel', 'newVirtualKeyModels', 'newVirtualKeyPaths', 'newVirtualKeyUpstream', 'newVirtualKeyExpires']) {
+            document.getElementById(id).value = '';
+          }
+          prompt('虚拟密钥已创建，请立即复制保存（只显示这一次）:', result.key);
+          loadVirtualKeys();
+        } else {
+          alert(\`创建失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('创建虚拟密钥失败:', error);
+      }
+    }
+    
+    // 修改虚拟密钥的过期时间
+    async function setVirtualKeyExpiry(id) {
+      const input = prompt('过期时间（如 2026-12-31 23:59），输入 now 立即过期，留空表示不过期:');
+      if (input === null) {
+        return;
+      }
+      let expiresAt = null;
+      if (input.trim() === 'now') {
+        expiresAt = Date.now();
+      } else if (input.trim()) {
+        expiresAt = new Date(input.trim()).getTime();
+        if (Number.isNaN(expiresAt)) {
+          alert('无法识别的时间格式');
+          return;
+        }
+      }
+      
+      try {
+        const response = await apiFetch(\`/api/keys/\${encodeURIComponent(id)}\`, {
+          method: 'PATCH',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ expiresAt })
+        });
+        const result = await response.json();
+        if (!result.success) {
+          alert(\`修改失败: \${result.error}\`);
+        }
+        loadVirtualKeys();
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('修改虚拟密钥失败:', error);
+      }
+    }
+    
+    // 吊销虚拟密钥
+    async function revokeVirtualKey(id) {
+      if (!confirm('确定要吊销该虚拟密钥吗？吊销后无法恢复')) {
+        return;
+      }
+      
+      try {
+        const response = await apiFetch(\`/api/keys/\${encodeURIComponent(id)}\`, {
+          method: 'DELETE'
+        });
+        const result = await response.json();
+        if (!result.success) {
+          alert(\`吊销失败: \${result.error}\`);
+        }
+        loadVirtualKeys();
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('吊销虚拟密钥失败:', error);
+      }
+    }
+    
+    // 页面加载时初始化
+    async function init() {
+      try {
+        const status = await getDebugStatus();
+        updateDebugStatus(status);
+        loadLogs();
+        loadUsage();
+        loadPrices();
+        loadRoutes();
+        loadRetryPolicy();
+        loadModelPolicy();
+        loadFallbackChains();
+        loadRewriteRules();
+        loadCaptureRules();
+        loadCache();
+        loadRateLimits();
+        loadKeyPool();
+        loadVirtualKeys();
+      } catch (error) {
+        console.error('初始化失败:', error);
+      }
+    }
+    
+    // 绑定事件处理器
+    document.getElementById('toggleBtn').addEventListener('click', toggleDebugMode);
+    document.getElementById('refreshBtn').addEventListener('click', loadLogs);
+    document.getElementById('loadMoreBtn').addEventListener('click', loadMoreLogs);
+    document.getElementById('clearBtn').addEventListener('click', clearLogs);
+    document.getElementById('importLogsBtn').addEventListener('click', importLogs);
+    document.getElementById('saveProxyTargetBtn').addEventListener('click', saveProxyTarget);
+    document.getElementById('addPoolKeysBtn').addEventListener('click', addPoolKeys);
+    document.getElementById('createVirtualKeyBtn').addEventListener('click', createVirtualKey);
+    document.getElementById('saveRoutesBtn').addEventListener('click', saveRoutes);
+    document.getElementById('loadUsageBtn').addEventListener('click', loadUsage);
+    document.getElementById('savePricesBtn').addEventListener('click', savePrices);
+    document.getElementById('saveRetryPolicyBtn').addEventListener('click', saveRetryPolicy);
+    document.getElementById('saveModelPolicyBtn').addEventListener('click', saveModelPolicy);
+    document.getElementById('saveFallbackChainsBtn').addEventListener('click', saveFallbackChains);
+    document.getElementById('saveRewriteRulesBtn').addEventListener('click', saveRewriteRules);
+    document.getElementById('testRewriteBtn').addEventListener('click', testRewriteRules);
+    document.getElementById('saveCaptureRulesBtn').addEventListener('click', saveCaptureRules);
+    document.getElementById('purgeCacheBtn').addEventListener('click', () => purgeCache());
+    document.getElementById('refreshCacheBtn').addEventListener('click', loadCache);
+    document.getElementById('saveRateLimitsBtn').addEventListener('click', saveRateLimits);
+    document.getElementById('refreshRateCountersBtn').addEventListener('click', loadRateLimits);
+    
+    // 页面加载完成后初始化
+    window.onload = init;
+
+    // 保存代理目标设置
+    async function saveProxyTarget() {
+      const targetInput = document.getElementById('proxyTargetInput');
+      const newTarget = targetInput.value.trim();
+      
+      if (!newTarget) {
+        alert('请输入有效的代理目标URL');
+        return;
+      }
+      
+      // 验证URL格式
+      try {
+        new URL(newTarget);
+      } catch (e) {
+        alert('请输入有效的URL格式（例如: https://example.com）');
+        return;
+      }
+      
+      try {
+        const response = await apiFetch('/api/proxy/target', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ targetUrl: newTarget })
+        });
+        
+        const result = await response.json();
+        
+        if (result.success) {
+          // 立即更新状态栏和输入框显示
+          const targetUrl = result.targetUrl;
+          document.getElementById('statusInfo').innerHTML = \`反代目标: \${targetUrl}\`;
+          document.getElementById('proxyTargetInput').value = targetUrl;
+          
+          alert('代理目标已成功更改');
+          
+          // 如果当前在调试模式，也更新调试信息
+          if (document.getElementById('statusDot').classList.contains('active')) {
+            const statusResponse = await apiFetch('/api/debug/status');
+            const status = await statusResponse.json();
+            updateDebugStatus(status);
+          }
+        } else {
+          alert(\`更改失败: \${result.error}\`);
+        }
+      } catch (error) {
+        alert('操作失败，请重试');
+        console.error('保存代理目标失败:', error);
+      }
+    }
+  </script>
+</body>
+</html>
+  `;
+}
+
+// 单条日志详情页面
+function getLogDetailHtml(): string {
+  return `
+<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>日志详情 - 请求调试器</title>
+  <style>
     body {
       font-family: 'PingFang SC', 'Microsoft YaHei', sans-serif;
       line-height: 1.6;
@@ -276,54 +6002,23 @@ function getHtmlIndex(): string {
       padding: 20px;
     }
     h1 {
-      text-align: center;
-      margin-bottom: 20px;
-    }
-    .status-bar {
-      background-color: #f8f8f8;
-      border-radius: 4px;
-      padding: 15px;
-      margin-bottom: 20px;
-      display: flex;
-      justify-content: space-between;
-      align-items: center;
-    }
-    .status-indicator {
-      display: flex;
-      align-items: center;
-    }
-    .status-dot {
-      width: 12px;
-      height: 12px;
-      border-radius: 50%;
-      background-color: #999;
-      margin-right: 8px;
-    }
-    .status-dot.active {
-      background-color: #4CAF50;
+      margin-bottom: 10px;
     }
-    .status-info {
-      font-size: 0.9em;
-      color: #666;
+    h3 {
+      margin: 20px 0 8px 0;
     }
-    .controls {
-      display: flex;
-      justify-content: space-between;
-      margin-bottom: 20px;
+    a {
+      color: #0366d6;
     }
     button {
       background-color: #4CAF50;
       color: white;
       border: none;
       padding: 10px 15px;
-      text-align: center;
-      text-decoration: none;
-      display: inline-block;
       font-size: 16px;
       margin: 4px 2px;
       cursor: pointer;
       border-radius: 4px;
-      transition: background-color 0.3s;
     }
     button:hover {
       background-color: #45a049;
@@ -332,804 +6027,2282 @@ function getHtmlIndex(): string {
       background-color: #cccccc;
       cursor: not-allowed;
     }
-    button.delete {
-      background-color: #f44336;
+    .meta {
+      background-color: #f8f8f8;
+      border-radius: 4px;
+      padding: 15px;
     }
-    button.delete:hover {
-      background-color: #d32f2f;
+    .meta div {
+      word-break: break-all;
     }
-    button.toggle-off {
-      background-color: #2196F3;
+    .log-body {
+      background-color: #f8f8f8;
+      padding: 10px;
+      border-radius: 4px;
+      white-space: pre-wrap;
+      overflow-x: auto;
+      max-height: 500px;
+      overflow-y: auto;
     }
-    button.toggle-off:hover {
-      background-color: #0b7dda;
+    textarea, input {
+      width: 100%;
+      box-sizing: border-box;
+      font-family: monospace;
+      font-size: 13px;
+      padding: 8px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      margin-bottom: 8px;
+    }
+    .replay-result {
+      margin-top: 10px;
+    }
+    .gemini-view {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+    .turn {
+      border-radius: 6px;
+      padding: 10px 14px;
+      max-width: 85%;
+      background-color: #e3f2fd;
+      align-self: flex-end;
+    }
+    .turn.model {
+      background-color: #f1f8e9;
+      align-self: flex-start;
+    }
+    .turn.function {
+      background-color: #fff8e1;
+      align-self: flex-start;
+    }
+    .turn.system {
+      background-color: #f3e5f5;
+      align-self: stretch;
+      max-width: none;
+    }
+    .turn-role {
+      font-weight: bold;
+      font-size: 0.85em;
+      color: #555;
+      margin-bottom: 4px;
+    }
+    .part-text {
+      white-space: pre-wrap;
+      word-break: break-word;
+    }
+    .part-text.thought {
+      color: #777;
+      font-style: italic;
+    }
+    .part-box {
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      padding: 6px 10px;
+      margin: 6px 0;
+      background-color: #fff;
+    }
+    .part-box.function-call {
+      border-left: 4px solid #2196F3;
+    }
+    .part-box.function-response {
+      border-left: 4px solid #FF9800;
+    }
+    .part-label {
+      font-size: 0.85em;
+      color: #666;
+    }
+    .part-pre {
+      white-space: pre-wrap;
+      margin: 4px 0 0 0;
+      font-size: 13px;
+    }
+    .inline-media {
+      max-width: 100%;
+      max-height: 400px;
+    }
+    .safety-table {
+      border-collapse: collapse;
+      font-size: 0.85em;
+    }
+    .safety-table th, .safety-table td {
+      border: 1px solid #ddd;
+      padding: 2px 8px;
+    }
+    .warning {
+      color: #e65100;
+    }
+  </style>
+</head>
+<body>
+  <a href="/debug">← 返回日志列表</a>
+  <h1>日志详情</h1>
+  <div id="content" class="loading">加载中...</div>
+  
+  <div id="replaySection" style="display: none;">
+    <h3>重放请求</h3>
+    <label>请求体（可修改）</label>
+    <textarea id="replayBody" rows="12"></textarea>
+    <label>目标URL（可选，留空则按路由表转发）</label>
+    <input type="text" id="replayTarget" placeholder="https://generativelanguage.googleapis.com">
+    <label>API密钥（可选，日志中的密钥已脱敏，需要时请重新填写）</label>
+    <input type="password" id="replayApiKey" placeholder="x-goog-api-key">
+    <button id="replayBtn">重放</button>
+    <div id="replayResult" class="replay-result"></div>
+  </div>
+
+  <script>
+    const logId = decodeURIComponent(location.pathname.split('/').pop());
+    
+    // 调用管理API，会话失效时跳转到登录页
+    async function apiFetch(url, options) {
+      const response = await fetch(url, options);
+      if (response.status === 401) {
+        window.location.href = '/login';
+        throw new Error('未授权');
+      }
+      return response;
     }
-    .log-list {
-      margin-bottom: 20px;
+    
+    // 格式化请求体
+    function formatBody(body) {
+      if (!body) return '无内容';
+      try {
+        return JSON.stringify(JSON.parse(body), null, 2);
+      } catch (e) {
+        return body;
+      }
     }
-    .log-item {
-      border: 1px solid #ddd;
-      padding: 15px;
-      margin-bottom: 15px;
-      border-radius: 4px;
+    
+    // 创建元素并设置文本，避免日志内容被当作HTML解析
+    function createElement(tag, text, className) {
+      const element = document.createElement(tag);
+      if (text !== undefined) element.textContent = text;
+      if (className) element.className = className;
+      return element;
     }
-    .log-header {
-      display: flex;
-      justify-content: space-between;
-      border-bottom: 1px solid #eee;
-      padding-bottom: 10px;
-      margin-bottom: 10px;
+    
+    // ===== Gemini 结构化视图 =====
+    
+    // 解析JSON，失败时返回 null
+    function tryParseJson(text) {
+      try {
+        return JSON.parse(text);
+      } catch (e) {
+        return null;
+      }
     }
-    .method {
-      font-weight: bold;
-      padding: 2px 8px;
-      border-radius: 4px;
-      color: white;
+    
+    // 把响应体解析为若干个 GenerateContentResponse：普通JSON、流式的JSON数组或SSE
+    function parseGeminiChunks(text) {
+      if (!text) return [];
+      const parsed = tryParseJson(text);
+      if (Array.isArray(parsed)) return parsed.filter(chunk => chunk && typeof chunk === 'object');
+      if (parsed && typeof parsed === 'object') return [parsed];
+      
+      const chunks = [];
+      for (const line of text.split(/\\r?\\n/)) {
+        if (!line.startsWith('data:')) continue;
+        const chunk = tryParseJson(line.slice(5).trim());
+        if (chunk && typeof chunk === 'object') chunks.push(chunk);
+      }
+      return chunks;
     }
-    .method.get { background-color: #61affe; }
-    .method.post { background-color: #49cc90; }
-    .method.put { background-color: #fca130; }
-    .method.delete { background-color: #f93e3e; }
-    .method.options { background-color: #0d5aa7; }
-    .method.head { background-color: #9012fe; }
-    .method.patch { background-color: #50e3c2; }
-    .log-body {
-      background-color: #f8f8f8;
-      padding: 10px;
-      border-radius: 4px;
-      white-space: pre-wrap;
-      overflow-x: auto;
-      max-height: 300px;
-      overflow-y: auto;
+    
+    // 把流式响应的各个分片合并为完整的响应：相邻的文本片段拼接，其余字段取最后出现的值
+    function mergeGeminiChunks(chunks) {
+      const merged = { candidates: [] };
+      for (const chunk of chunks) {
+        for (const key of ['usageMetadata', 'promptFeedback', 'modelVersion', 'responseId', 'error']) {
+          if (chunk[key] !== undefined) merged[key] = chunk[key];
+        }
+        (chunk.candidates || []).forEach((candidate, position) => {
+          const index = candidate.index !== undefined ? candidate.index : position;
+          const target = merged.candidates[index] || (merged.candidates[index] = { content: { role: 'model', parts: [] } });
+          for (const key of ['finishReason', 'safetyRatings', 'citationMetadata', 'groundingMetadata']) {
+            if (candidate[key] !== undefined) target[key] = candidate[key];
+          }
+          if (candidate.content && candidate.content.role) target.content.role = candidate.content.role;
+          for (const part of (candidate.content && candidate.content.parts) || []) {
+            const last = target.content.parts[target.content.parts.length - 1];
+            if (part.text !== undefined && last && last.text !== undefined && !!last.thought === !!part.thought) {
+              last.text += part.text;
+            } else {
+              target.content.parts.push({ ...part });
+            }
+          }
+        });
+      }
+      merged.candidates = merged.candidates.filter(Boolean);
+      return merged;
     }
-    .timestamp {
-      color: #666;
-      font-size: 0.9em;
+    
+    // 带标题的代码块
+    function createLabeledPre(label, value, className) {
+      const box = createElement('div', undefined, className || 'part-box');
+      box.appendChild(createElement('div', label, 'part-label'));
+      box.appendChild(createElement('pre', typeof value === 'string' ? value : JSON.stringify(value, null, 2), 'part-pre'));
+      return box;
     }
-    .log-url {
-      word-break: break-all;
-      margin: 5px 0;
+    
+    // 渲染 inlineData：附件引用从附件API读取，完整的 base64 直接显示，已被压缩时只显示类型
+    function renderInlineData(inlineData) {
+      const mimeType = inlineData.mimeType || inlineData.mime_type || 'application/octet-stream';
+      const data = inlineData.data || '';
+      const box = createElement('div', undefined, 'part-box');
+      const attachmentMatch = data.match(/^\\[attachment:([0-9a-f]{64})\\]$/);
+      
+      if (!attachmentMatch && !/^[A-Za-z0-9+/=]+$/.test(data)) {
+        box.appendChild(createElement('div', '附件 ' + mimeType + '（内容未保存: ' + (data || '无') + '）', 'part-label'));
+        return box;
+      }
+      
+      const src = attachmentMatch ? '/api/attachments/' + attachmentMatch[1] : 'data:' + mimeType + ';base64,' + data;
+      let media;
+      if (mimeType.startsWith('image/')) {
+        media = document.createElement('img');
+        media.className = 'inline-media';
+      } else if (mimeType.startsWith('audio/')) {
+        media = document.createElement('audio');
+        media.controls = true;
+      } else if (mimeType.startsWith('video/')) {
+        media = document.createElement('video');
+        media.controls = true;
+        media.className = 'inline-media';
+      } else {
+        media = createElement('a', '下载');
+        media.download = 'attachment';
+      }
+      if (media.tagName === 'A') media.href = src; else media.src = src;
+      box.appendChild(createElement('div', attachmentMatch
+        ? mimeType + '，附件 ' + attachmentMatch[1].slice(0, 12)
+        : mimeType + '，约 ' + Math.round(data.length * 3 / 4 / 1024) + ' KB', 'part-label'));
+      box.appendChild(media);
+      return box;
     }
-    .log-headers {
-      margin-top: 10px;
-      cursor: pointer;
+    
+    // 渲染一个 Part
+    function renderPart(part) {
+      if (part.text !== undefined) {
+        if (part.thought) {
+          const details = document.createElement('details');
+          details.appendChild(createElement('summary', '思考过程'));
+          details.appendChild(createElement('div', part.text, 'part-text thought'));
+          return details;
+        }
+        return createElement('div', part.text, 'part-text');
+      }
+      if (part.functionCall) {
+        return createLabeledPre('调用函数 ' + part.functionCall.name, part.functionCall.args || {}, 'part-box function-call');
+      }
+      if (part.functionResponse) {
+        return createLabeledPre('函数返回 ' + part.functionResponse.name, part.functionResponse.response || {}, 'part-box function-response');
+      }
+      if (part.inlineData || part.inline_data) {
+        return renderInlineData(part.inlineData || part.inline_data);
+      }
+      if (part.fileData) {
+        const box = createElement('div', undefined, 'part-box');
+        box.appendChild(createElement('div', '文件 ' + (part.fileData.mimeType || ''), 'part-label'));
+        box.appendChild(createElement('div', part.fileData.fileUri || ''));
+        return box;
+      }
+      if (part.executableCode) {
+        return createLabeledPre('代码 (' + (part.executableCode.language || '') + ')', part.executableCode.code || '');
+      }
+      if (part.codeExecutionResult) {
+        return createLabeledPre('代码执行结果 (' + (part.codeExecutionResult.outcome || '') + ')', part.codeExecutionResult.output || '');
+      }
+      return createLabeledPre('其他内容', part);
     }
-    .log-headers-content {
-      display: none;
-      background-color: #f8f8f8;
-      padding: 10px;
-      border-radius: 4px;
-      margin-top: 5px;
+    
+    // 渲染一轮对话
+    function renderTurn(role, parts, extra) {
+      const roleNames = { user: '用户', model: '模型', function: '函数', system: '系统指令' };
+      const turn = createElement('div', undefined, 'turn ' + (role || 'user'));
+      turn.appendChild(createElement('div', (roleNames[role] || role || '用户') + (extra ? ' · ' + extra : ''), 'turn-role'));
+      for (const part of parts || []) {
+        turn.appendChild(renderPart(part));
+      }
+      return turn;
     }
-    .empty-state {
-      text-align: center;
-      padding: 50px;
-      color: #666;
+    
+    // 渲染安全评级
+    function renderSafetyRatings(ratings) {
+      const table = document.createElement('table');
+      table.className = 'safety-table';
+      const header = document.createElement('tr');
+      for (const title of ['类别', '概率', '是否拦截']) header.appendChild(createElement('th', title));
+      table.appendChild(header);
+      for (const rating of ratings) {
+        const row = document.createElement('tr');
+        row.appendChild(createElement('td', rating.category || '-'));
+        row.appendChild(createElement('td', rating.probability || '-'));
+        row.appendChild(createElement('td', rating.blocked ? '是' : '否'));
+        table.appendChild(row);
+      }
+      return table;
     }
-    .loading {
-      text-align: center;
-      padding: 20px;
-      color: #666;
+    
+    // 渲染 Gemini 请求和响应的结构化视图，请求体不是 Gemini 格式时返回 null
+    function renderGeminiView(log) {
+      const request = tryParseJson(log.body);
+      const chunks = parseGeminiChunks(log.responseBody);
+      const isGeminiRequest = request && Array.isArray(request.contents);
+      const isGeminiResponse = chunks.some(chunk => chunk.candidates || chunk.promptFeedback);
+      if (!isGeminiRequest && !isGeminiResponse) return null;
+      
+      const view = createElement('div', undefined, 'gemini-view');
+      
+      if (isGeminiRequest) {
+        const systemInstruction = request.systemInstruction || request.system_instruction;
+        if (systemInstruction) {
+          view.appendChild(renderTurn('system', systemInstruction.parts || [{ text: String(systemInstruction) }]));
+        }
+        for (const content of request.contents) {
+          view.appendChild(renderTurn(content.role, content.parts));
+        }
+      }
+      
+      const response = mergeGeminiChunks(chunks);
+      response.candidates.forEach((candidate, index) => {
+        const extra = [];
+        if (response.candidates.length > 1) extra.push('候选 #' + (index + 1));
+        if (candidate.finishReason) extra.push('结束原因: ' + candidate.finishReason);
+        if (chunks.length > 1 && index === 0) extra.push('由 ' + chunks.length + ' 个流式分片合并');
+        const turn = renderTurn('model', candidate.content.parts, extra.join('，'));
+        if (candidate.safetyRatings && candidate.safetyRatings.length > 0) {
+          const details = document.createElement('details');
+          details.appendChild(createElement('summary', '安全评级'));
+          details.appendChild(renderSafetyRatings(candidate.safetyRatings));
+          turn.appendChild(details);
+        }
+        view.appendChild(turn);
+      });
+      
+      if (response.promptFeedback) {
+        const feedback = createLabeledPre('提示词反馈' + (response.promptFeedback.blockReason ? '（已拦截: ' + response.promptFeedback.blockReason + '）' : ''), response.promptFeedback);
+        if (response.promptFeedback.safetyRatings) feedback.appendChild(renderSafetyRatings(response.promptFeedback.safetyRatings));
+        view.appendChild(feedback);
+      }
+      if (response.error) {
+        view.appendChild(createLabeledPre('错误', response.error, 'part-box function-response'));
+      }
+      
+      const settings = createElement('div', undefined, 'gemini-settings');
+      if (isGeminiRequest && request.generationConfig) {
+        settings.appendChild(createLabeledPre('生成配置 (generationConfig)', request.generationConfig));
+      }
+      if (isGeminiRequest && request.tools) {
+        const names = [];
+        for (const tool of request.tools) {
+          for (const declaration of tool.functionDeclarations || tool.function_declarations || []) names.push(declaration.name);
+        }
+        settings.appendChild(createLabeledPre('工具' + (names.length ? '（函数: ' + names.join(', ') + '）' : ''), request.tools));
+      }
+      if (isGeminiRequest && request.safetySettings) {
+        settings.appendChild(createLabeledPre('安全设置 (safetySettings)', request.safetySettings));
+      }
+      if (response.usageMetadata) {
+        settings.appendChild(createLabeledPre('用量 (usageMetadata)', response.usageMetadata));
+      }
+      if (settings.childNodes.length > 0) view.appendChild(settings);
+      return view;
     }
-    /* 响应式设计 */
-    @media (max-width: 768px) {
-      .log-header {
-        flex-direction: column;
+    
+    // 渲染日志详情
+    function renderLog(log) {
+      const content = document.getElementById('content');
+      content.innerHTML = '';
+      content.className = '';
+      
+      const meta = createElement('div', undefined, 'meta');
+      const rows = [
+        ['请求', log.method + ' ' + log.url],
+        ['时间', new Date(log.timestamp).toLocaleString('zh-CN', { hour12: false })],
+        ['状态码', log.responseStatus || '未知'],
+        ['路由', log.route || '-'],
+        ['模型', log.model || '-'],
+        ['请求的模型', log.requestedModel || log.model || '-'],
+        ['缓存', log.cache || '-'],
+        ['虚拟密钥', log.keyLabel || '-'],
+        ['采集规则', log.captureRule || '-'],
+        ['改写规则', log.rewriteRules && log.rewriteRules.length > 0 ? log.rewriteRules.join(', ') : '-'],
+        ['耗时', log.timing ? \`首字节 \${log.timing.ttfbMs}ms，总计 \${log.timing.totalMs}ms\` : '-'],
+        ['流量', log.timing ? \`请求 \${log.timing.requestBytes ?? '-'} 字节，响应 \${log.timing.responseBytes ?? '-'} 字节\` : '-'],
+        ['上游状态码', log.timing?.upstreamStatus ?? '-'],
+        ['客户端IP', log.clientIP]
+      ];
+      if (log.fallback && log.fallback.length > 0) {
+        rows.push(['降级链', log.fallback.map(step => \`\${step.model}\${step.target ? ' @ ' + step.target : ''} \${step.status || step.error || '未知'}\`).join(' → ')]);
       }
-      .controls {
-        flex-direction: column;
+      if (log.attempts && log.attempts.length > 0) {
+        rows.push(['上游尝试', log.attempts.map(a => \`第\${a.attempt}次 \${a.status || a.error || '未知'}\${a.timeout ? ' [超时: ' + a.timeout + ']' : ''} (\${a.durationMs}ms)\`).join('；')]);
       }
-      button {
-        margin-bottom: 10px;
+      for (const [label, value] of rows) {
+        meta.appendChild(createElement('div', label + ': ' + value));
+      }
+      if (log.replayOf) {
+        const origin = createElement('div', '重放自: ');
+        const link = createElement('a', log.replayOf);
+        link.href = '/debug/log/' + encodeURIComponent(log.replayOf);
+        origin.appendChild(link);
+        meta.appendChild(origin);
+      }
+      content.appendChild(meta);
+      
+      const geminiView = renderGeminiView(log);
+      if (geminiView) {
+        content.appendChild(createElement('h3', '对话视图'));
+        content.appendChild(geminiView);
       }
+      
+      content.appendChild(createElement('h3', '请求头'));
+      content.appendChild(createElement('pre', JSON.stringify(log.headers, null, 2), 'log-body'));
+      content.appendChild(createElement('h3', '请求体'));
+      content.appendChild(createElement('pre', formatBody(log.body), 'log-body'));
+      content.appendChild(createElement('h3', '响应体'));
+      content.appendChild(createElement('pre', formatBody(log.responseBody), 'log-body'));
+      
+      document.getElementById('replayBody').value = formatBody(log.body) === '无内容' ? '' : formatBody(log.body);
+      document.getElementById('replaySection').style.display = 'block';
     }
-    /* 复制按钮样式优化 */
-    .copy-button {
-      position: absolute;
-      top: 5px;
-      right: 25px; /* 移到滚动条左侧 */
-      background-color: #e9f5ff;
-      border: 1px solid #c8e1ff;
-      border-radius: 4px;
-      padding: 3px 8px;
-      font-size: 12px;
-      cursor: pointer;
-      opacity: 0.7;
-      transition: all 0.3s;
-      display: flex;
-      align-items: center;
-      color: #0366d6;
+    
+    // 加载日志
+    async function loadLog() {
+      try {
+        const response = await apiFetch('/api/logs/' + encodeURIComponent(logId));
+        if (!response.ok) {
+          document.getElementById('content').textContent = '未找到该日志，可能已过期或被清除';
+          return;
+        }
+        renderLog(await response.json());
+      } catch (error) {
+        document.getElementById('content').textContent = '加载失败，请重试';
+        console.error('加载日志失败:', error);
+      }
     }
     
-    .copy-button:hover {
-      opacity: 1;
-      background-color: #daeeff;
+    // 重放请求
+    async function replay() {
+      const replayBtn = document.getElementById('replayBtn');
+      const result = document.getElementById('replayResult');
+      const options = {};
+      
+      const body = document.getElementById('replayBody').value;
+      if (body) options.body = body;
+      const targetUrl = document.getElementById('replayTarget').value.trim();
+      if (targetUrl) options.targetUrl = targetUrl;
+      const apiKey = document.getElementById('replayApiKey').value.trim();
+      if (apiKey) options.headers = { 'x-goog-api-key': apiKey };
+      
+      replayBtn.disabled = true;
+      result.textContent = '重放中...';
+      
+      try {
+        const response = await apiFetch('/api/logs/' + encodeURIComponent(logId) + '/replay', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify(options)
+        });
+        const data = await response.json();
+        result.innerHTML = '';
+        
+        if (!data.success) {
+          result.textContent = \`重放失败: \${data.message || data.error}\`;
+          return;
+        }
+        
+        const summary = createElement('div', \`状态码: \${data.status}，新日志: \`);
+        const link = createElement('a', data.logId);
+        link.href = '/debug/log/' + encodeURIComponent(data.logId);
+        summary.appendChild(link);
+        result.appendChild(summary);
+        for (const warning of data.warnings) {
+          result.appendChild(createElement('div', warning, 'warning'));
+        }
+        result.appendChild(createElement('pre', formatBody(data.responseBody), 'log-body'));
+      } catch (error) {
+        result.textContent = '重放失败，请重试';
+        console.error('重放请求失败:', error);
+      } finally {
+        replayBtn.disabled = false;
+      }
     }
     
-    /* 添加复制图标 */
-    .copy-button::before {
-      content: "📋";
-      margin-right: 4px;
-      font-size: 14px;
+    document.getElementById('replayBtn').addEventListener('click', replay);
+    window.onload = loadLog;
+  </script>
+</body>
+</html>
+  `;
+}
+
+// 处理调试API
+async function handleDebugApi(request: Request, path: string): Promise<Response> {
+  // 获取调试状态
+  if (path === "/api/debug/status" && request.method === "GET") {
+    // 如果使用KV存储，获取最新的日志计数
+    let logCount = state.logs.length;
+    if (kv && state.isDebugMode) {
+      try {
+        const logIds = await kv.get<string[]>(["logIds"]);
+        if (logIds?.value) {
+          logCount = logIds.value.length;
+        }
+      } catch (error) {
+        logger.error("获取KV日志计数失败", { error });
+        recordKvFailure("logs");
+      }
     }
     
-    /* 复制成功提示优化 */
-    .copy-feedback {
-      position: absolute;
-      top: 5px;
-      right: 90px; /* 调整位置 */
-      background-color: #28a745;
-      color: white;
-      padding: 3px 10px;
-      border-radius: 4px;
-      font-size: 12px;
-      opacity: 0;
-      transition: opacity 0.3s;
-      box-shadow: 0 2px 4px rgba(0,0,0,0.2);
+    return new Response(JSON.stringify({
+      isDebugMode: state.isDebugMode,
+      logCount: logCount,
+      targetUrl: TARGET_URL
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // 切换调试模式
+  if (path === "/api/debug/toggle" && request.method === "POST") {
+    state.isDebugMode = !state.isDebugMode;
+    
+    if (state.isDebugMode) {
+      // 如果使用KV存储，也保存调试状态
+      if (kv) {
+        // 应用到所有KV存储
+        await kv.set(["debugState"], {
+          isDebugMode: true,
+        }, { expireAt });
+      }
+    } else {
+      // 如果使用KV存储，更新调试状态
+      if (kv) {
+        await kv.set(["debugState"], {
+          isDebugMode: false
+        });
+      }
     }
     
-    .copy-feedback.show {
-      opacity: 1;
+    // 获取当前日志计数
+    let logCount = state.logs.length;
+    if (kv && state.isDebugMode) {
+      try {
+        const logIds = await kv.get<string[]>(["logIds"]);
+        if (logIds?.value) {
+          logCount = logIds.value.length;
+        }
+      } catch (error) {
+        logger.error("获取KV日志计数失败", { error });
+        recordKvFailure("logs");
+      }
     }
     
-    /* 在悬停时才显示按钮 */
-    .log-body-container {
-      position: relative;
+    return new Response(JSON.stringify({
+      isDebugMode: state.isDebugMode,
+      logCount: logCount,
+      targetUrl: TARGET_URL
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "未找到API路由" }), {
+    status: 404,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// ===== 实时日志推送 =====
+// /api/logs/stream 以 SSE 推送新日志：pending 事件表示响应仍在传输中的请求，log 事件表示已保存的完整日志
+// 本实例的日志直接通过监听器推送，其他实例写入KV的日志通过 kv.watch 监听 logIds 变化获取
+
+type LogStreamEvent = { type: "pending" | "log"; log: RequestLog };
+
+const logListeners = new Set<(event: LogStreamEvent) => void>();
+
+// 通知所有订阅者
+function publishLogEvent(type: LogStreamEvent["type"], log: RequestLog) {
+  for (const listener of logListeners) {
+    try {
+      listener({ type, log });
+    } catch (error) {
+      logger.error("推送日志事件失败", { error });
     }
-    
-    .log-body-container .copy-button {
-      opacity: 0.3;
+  }
+}
+
+// 处理实时日志订阅，支持与日志列表相同的筛选参数
+function handleLogStreamApi(request: Request): Response {
+  const filter = parseLogFilter(new URL(request.url).searchParams);
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+  
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      // 同一条日志可能同时来自本实例的监听器和 kv.watch，只推送一次
+      const sentIds = new Set<string>();
+      let closed = false;
+      
+      const write = (text: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup();
+        }
+      };
+      
+      const listener = ({ type, log }: LogStreamEvent) => {
+        if (!matchesLogFilter(log, filter)) return;
+        if (type === "log") {
+          if (sentIds.has(log.id)) return;
+          sentIds.add(log.id);
+          if (sentIds.size > MAX_LOGS * 2) {
+            sentIds.delete(sentIds.values().next().value!);
+          }
+        }
+        write(`event: ${type}\ndata: ${JSON.stringify(log)}\n\n`);
+      };
+      logListeners.add(listener);
+      
+      // 定期发送注释行，防止连接被中间代理因空闲而断开
+      const heartbeat = setInterval(() => write(": ping\n\n"), 15 * 1000);
+      
+      // 使用显式的 reader：for await 会一直锁住流，断开时无法取消 kv.watch
+      const watchReader = kv?.watch<[string[]]>([["logIds"]]).getReader();
+      if (watchReader) {
+        (async () => {
+          let knownIds: Set<string> | null = null;
+          while (!closed) {
+            const { done, value } = await watchReader.read();
+            if (done) break;
+            const ids = value[0].value || [];
+            // 第一次收到的是当前值，只用于记录已有的日志
+            if (knownIds) {
+              for (const id of ids.filter((id) => !knownIds!.has(id)).reverse()) {
+                if (sentIds.has(id)) continue;
+                const log = await getLogFromKV(id);
+                if (log) listener({ type: "log", log });
+              }
+            }
+            knownIds = new Set(ids);
+          }
+        })().catch((error) => {
+          if (!closed) logger.error("监听KV日志变化失败", { error });
+        });
+      }
+      
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        logListeners.delete(listener);
+        clearInterval(heartbeat);
+        watchReader?.cancel().catch(() => {});
+      };
+      request.signal.addEventListener("abort", cleanup);
+      
+      write(`event: ready\ndata: ${JSON.stringify({ kv: !!kv })}\n\n`);
+    },
+    cancel() {
+      cleanup();
     }
-    
-    .log-body-container:hover .copy-button {
-      opacity: 0.8;
+  });
+  
+  return new Response(body, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive"
     }
+  });
+}
 
-    .status-info-container {
-      display: flex;
-      flex-direction: column;
-      align-items: flex-end;
-      gap: 8px;
-    }
+// 获取日志列表：调试模式下从KV获取（包含其他实例的日志），否则使用内存中的日志
+async function listLogs(): Promise<RequestLog[]> {
+  return kv && state.isDebugMode ? await getLogsFromKV() : state.logs;
+}
 
-    .proxy-target-form {
-      display: flex;
-      align-items: center;
-      gap: 8px;
+// 处理日志API
+async function handleLogsApi(request: Request): Promise<Response> {
+  // 获取日志，支持筛选和游标分页
+  // 响应体仍为日志数组，下一页游标和匹配总数通过响应头返回
+  if (request.method === "GET") {
+    const params = new URL(request.url).searchParams;
+    const filter = parseLogFilter(params);
+    const limit = Math.min(Math.max(Number(params.get("limit")) || 50, 1), 500);
+    
+    const logs = await listLogs();
+    const matched = logs.filter((log) => matchesLogFilter(log, filter));
+    const { page, nextCursor } = paginateLogs(matched, params.get("cursor"), limit);
+    
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "X-Total-Count": String(matched.length)
+    };
+    if (nextCursor) {
+      headers["X-Next-Cursor"] = nextCursor;
     }
+    return new Response(JSON.stringify(page), { headers });
+  } 
+  // 清除所有日志
+  else if (request.method === "DELETE") {
+    const success = await clearAllRequestLogs();
+    return new Response(JSON.stringify({ success }), {
+      status: success ? 200 : 500,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
 
-    .proxy-target-form input {
-      width: 300px;
-      padding: 6px 10px;
-      border: 1px solid #ddd;
-      border-radius: 4px;
-    }
+// ===== 日志导出/导入 =====
 
-    .proxy-target-form button {
-      padding: 6px 12px;
-      margin: 0;
+// 把 {name: value} 形式的头部转换为 HAR 的 [{name, value}]
+function toHarNameValues(record: Record<string, string>) {
+  return Object.entries(record).map(([name, value]) => ({ name, value }));
+}
+
+// 导出为 HAR 1.2
+function buildHarArchive(logs: RequestLog[]) {
+  const entries = logs.map((log) => {
+    const url = new URL(log.url);
+    const requestBody = isPlaceholderBody(log.body) ? "" : log.body;
+    const responseBody = log.responseBody && !isPlaceholderBody(log.responseBody) ? log.responseBody : "";
+    // 上游返回响应头之前的耗时算作等待时间，其余为接收响应体的时间
+    const wait = log.timing?.ttfbMs ?? (log.attempts || []).reduce((sum, attempt) => sum + attempt.durationMs + (attempt.retryDelayMs || 0), 0);
+    const time = Math.max(log.timing?.totalMs ?? wait, wait);
+    const findHeader = (headers: Record<string, string> | undefined, name: string) =>
+      Object.entries(headers || {}).find(([key]) => key.toLowerCase() === name)?.[1];
+    
+    return {
+      startedDateTime: new Date(log.timestamp).toISOString(),
+      time,
+      request: {
+        method: log.method,
+        url: log.url,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toHarNameValues(log.headers),
+        queryString: [...url.searchParams.entries()].map(([name, value]) => ({ name, value })),
+        ...(requestBody ? { postData: { mimeType: findHeader(log.headers, "content-type") || "application/json", text: requestBody } } : {}),
+        headersSize: -1,
+        bodySize: new TextEncoder().encode(requestBody).byteLength,
+      },
+      response: {
+        status: log.responseStatus || 0,
+        statusText: "",
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toHarNameValues(log.responseHeaders || {}),
+        content: {
+          size: new TextEncoder().encode(responseBody).byteLength,
+          mimeType: findHeader(log.responseHeaders, "content-type") || "application/json",
+          text: responseBody,
+        },
+        redirectURL: "",
+        headersSize: -1,
+        bodySize: -1,
+      },
+      cache: {},
+      timings: { send: 0, wait, receive: time - wait },
+      _id: log.id,
+      _route: log.route,
+      _model: log.model,
+      _attempts: log.attempts,
+    };
+  });
+  
+  return {
+    log: {
+      version: "1.2",
+      creator: { name: "deno-gemini-proxy", version: "1.0" },
+      entries,
+    },
+  };
+}
+
+// 用单引号转义，生成可以直接粘贴到 shell 中的参数
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// 导出为 curl 命令脚本，日志中的密钥已经脱敏，运行前需要手动替换
+function buildCurlScript(logs: RequestLog[]): string {
+  const lines = [
+    "#!/bin/sh",
+    "# 由调试页面导出，密钥等敏感信息已脱敏（显示为 ****），运行前请替换为真实值",
+    "",
+  ];
+  for (const log of logs) {
+    const args = [`curl -X ${log.method} ${shellQuote(log.url)}`];
+    for (const [name, value] of Object.entries(log.headers)) {
+      if (["host", "content-length", "connection", "accept-encoding"].includes(name.toLowerCase())) continue;
+      args.push(`-H ${shellQuote(`${name}: ${value}`)}`);
     }
+    if (log.method !== "GET" && log.method !== "HEAD" && !isPlaceholderBody(log.body)) {
+      args.push(`--data-raw ${shellQuote(log.body)}`);
+    }
+    lines.push(`# ${new Date(log.timestamp).toISOString()} ${log.id} 状态码: ${log.responseStatus ?? "未知"}`);
+    lines.push(args.join(" \\\n  "));
+    lines.push("");
+  }
+  return lines.join("\n");
+}
 
-    /* 响应式设计调整 */
-    @media (max-width: 768px) {
-      .status-bar {
-        flex-direction: column;
-        align-items: flex-start;
+// 处理日志导出：GET /api/logs/export?format=har|ndjson|curl，筛选参数与日志列表相同
+async function handleLogExportApi(request: Request): Promise<Response> {
+  const params = new URL(request.url).searchParams;
+  const format = params.get("format") || "har";
+  const filter = parseLogFilter(params);
+  const logs = (await listLogs()).filter((log) => matchesLogFilter(log, filter));
+  const filename = `proxy-logs-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+  
+  if (format === "har") {
+    return new Response(JSON.stringify(buildHarArchive(logs), null, 2), {
+      headers: {
+        "Content-Type": "application/json",
+        "Content-Disposition": `attachment; filename="${filename}.har"`
       }
-      
-      .status-info-container {
-        width: 100%;
-        align-items: flex-start;
-        margin-top: 10px;
+    });
+  }
+  if (format === "ndjson") {
+    return new Response(logs.map((log) => JSON.stringify(log)).join("\n") + "\n", {
+      headers: {
+        "Content-Type": "application/x-ndjson",
+        "Content-Disposition": `attachment; filename="${filename}.ndjson"`
       }
-      
-      .proxy-target-form {
-        width: 100%;
+    });
+  }
+  if (format === "curl") {
+    return new Response(buildCurlScript(logs), {
+      headers: {
+        "Content-Type": "text/x-shellscript; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${filename}.sh"`
       }
-      
-      .proxy-target-form input {
-        flex-grow: 1;
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "format 只能是 har、ndjson 或 curl" }), {
+    status: 400,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// 处理日志导入：POST /api/logs/import，请求体为导出的 NDJSON，每行一条日志
+async function handleLogImportApi(request: Request): Promise<Response> {
+  if (request.method !== "POST") {
+    return new Response(JSON.stringify({ error: "不支持的方法" }), {
+      status: 405,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  const lines = (await request.text()).split("\n").filter((line) => line.trim());
+  const logs: RequestLog[] = [];
+  for (const [index, line] of lines.entries()) {
+    try {
+      const log = JSON.parse(line) as RequestLog;
+      if (typeof log.id !== "string" || typeof log.method !== "string" || typeof log.url !== "string" ||
+          typeof log.timestamp !== "number" || !log.headers || typeof log.headers !== "object") {
+        throw new Error("缺少 id、timestamp、method、url 或 headers 字段");
       }
+      logs.push({
+        ...log,
+        path: log.path || new URL(log.url).pathname,
+        body: typeof log.body === "string" ? log.body : "",
+        clientIP: log.clientIP || "unknown",
+        imported: true,
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ error: `第 ${index + 1} 行: ${(error as Error).message}` }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
     }
-  </style>
-</head>
-<body>
-  <h1>请求调试器</h1>
-  
-  <div class="status-bar">
-    <div class="status-indicator">
-      <div id="statusDot" class="status-dot"></div>
-      <span id="statusText">调试模式已关闭</span>
-    </div>
-    <div class="status-info-container">
-      <div class="status-info" id="statusInfo">
-        反代目标: ${TARGET_URL}
-      </div>
-      <div class="proxy-target-form">
-        <input type="text" id="proxyTargetInput" placeholder="输入新的代理目标URL" value="${TARGET_URL}">
-        <button id="saveProxyTargetBtn">保存</button>
-      </div>
-    </div>
-  </div>
+  }
   
-  <div class="controls">
-    <div>
-      <button id="toggleBtn">开启调试</button>
-      <button id="refreshBtn">刷新</button>
-      <button id="clearBtn" class="delete">清除所有日志</button>
-    </div>
-  </div>
+  // 超出日志数量上限的部分会被丢弃，只导入最新的 MAX_LOGS 条；按时间从旧到新插入，保证列表顶部是最新的日志
+  const existingIds = new Set(state.logs.map((log) => log.id));
+  const toImport = logs
+    .filter((log) => !existingIds.has(log.id))
+    .sort((a, b) => b.timestamp - a.timestamp)
+    .slice(0, MAX_LOGS)
+    .reverse();
+  for (const log of toImport) {
+    await storeLogEntry(log);
+  }
   
-  <div id="logList" class="log-list">
-    <div class="empty-state">调试模式已关闭，开启后将在此显示请求日志</div>
-  </div>
+  logger.info(`已导入 ${toImport.length} 条日志`);
+  return new Response(JSON.stringify({ success: true, imported: toImport.length, skipped: logs.length - toImport.length }), {
+    headers: { "Content-Type": "application/json" }
+  });
+}
 
-  <script>
-    // 格式化时间戳
-    function formatTimestamp(timestamp) {
-      const date = new Date(timestamp);
-      return date.toLocaleString('zh-CN', {
-        year: 'numeric',
-        month: '2-digit',
-        day: '2-digit',
-        hour: '2-digit',
-        minute: '2-digit',
-        second: '2-digit',
-        hour12: false
-      });
+// 按ID获取单条日志，先查内存再查KV
+async function getLogById(id: string): Promise<RequestLog | null> {
+  const memoryLog = state.logs.find((log) => log.id === id);
+  if (memoryLog) return memoryLog;
+  
+  if (kv) {
+    try {
+      return await getLogFromKV(id);
+    } catch (error) {
+      logger.error(`从KV存储获取日志 ${id} 失败`, { error });
+      recordKvFailure("logs");
     }
-    
-    // 格式化请求体
-    function formatBody(body) {
-      if (!body) return '无内容';
-      
-      try {
-        // 尝试解析为JSON并格式化
-        const parsed = JSON.parse(body);
-        return JSON.stringify(parsed, null, 2);
-      } catch (e) {
-        // 如果不是JSON，直接返回
-        return body;
-      }
+  }
+  return null;
+}
+
+// 重放选项
+interface ReplayOptions {
+  body?: string; // 替换原请求体
+  targetUrl?: string; // 转发到其他目标
+  headers?: Record<string, string>; // 附加或覆盖的请求头（如真实的API密钥）
+}
+
+// 判断日志中的值是否已被脱敏
+function isRedactedValue(value: string): boolean {
+  return value.includes("****") || value === "[已脱敏]";
+}
+
+// 日志中的占位文本（如 "[无请求体 ...]"、"[响应体为空]"）不是真实内容
+function isPlaceholderBody(body: string): boolean {
+  return /^\[[^\]]*(请求体|响应体|二进制)[^\]]*\]$/.test(body);
+}
+
+// 根据日志重建请求，经 handleProxy 重新发送，新日志通过 replayOf 关联原始日志
+async function replayLog(log: RequestLog, options: ReplayOptions) {
+  // 去掉已脱敏的查询参数和请求头，它们无法还原
+  const url = new URL(log.url);
+  for (const [name, value] of [...url.searchParams.entries()]) {
+    if (isRedactedValue(value)) url.searchParams.delete(name);
+  }
+  
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(log.headers)) {
+    if (isRedactedValue(value) || ["host", "content-length", "connection"].includes(name.toLowerCase())) continue;
+    headers.set(name, value);
+  }
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    if (value) headers.set(name, value);
+  }
+  
+  const warnings: string[] = [];
+  let body: string | null = options.body ?? log.body;
+  if (options.body === undefined && isPlaceholderBody(log.body)) {
+    body = null;
+  }
+  if (body && /\[base64内容 #\d+|\[内容已截断/.test(body)) {
+    warnings.push("请求体中包含已压缩或截断的内容，重放结果可能与原请求不同");
+  }
+  if (body) {
+    const restored = await restoreAttachments(body);
+    body = restored.body;
+    if (restored.missing.length > 0) {
+      warnings.push(`有 ${restored.missing.length} 个附件已被清理，无法还原`);
     }
-    
-    // 获取调试状态
-    async function getDebugStatus() {
-      try {
-        const response = await fetch('/api/debug/status');
-        return await response.json();
-      } catch (error) {
-        console.error('获取调试状态失败:', error);
-        return { isDebugMode: false };
+  }
+  if (log.method === "GET" || log.method === "HEAD") {
+    body = null;
+  }
+  
+  const logId = generateLogId();
+  const response = await handleProxy(new Request(url.toString(), {
+    method: log.method,
+    headers,
+    body,
+  }), {
+    targetUrl: options.targetUrl,
+    forceCapture: true,
+    noCache: true,
+    logExtra: { id: logId, replayOf: log.id },
+  });
+  
+  return {
+    logId,
+    status: response.status,
+    responseBody: await response.text(),
+    warnings,
+  };
+}
+
+// 处理单条日志API：/api/logs/:id 和 /api/logs/:id/replay
+async function handleLogDetailApi(request: Request, path: string): Promise<Response> {
+  const match = path.match(/^\/api\/logs\/([^/]+)(\/replay)?$/);
+  if (!match) {
+    return new Response(JSON.stringify({ error: "未找到API路由" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  const log = await getLogById(decodeURIComponent(match[1]));
+  if (!log) {
+    return new Response(JSON.stringify({ error: "未找到该日志" }), {
+      status: 404,
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // 获取单条日志
+  if (!match[2] && request.method === "GET") {
+    return new Response(JSON.stringify(log), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // 重放请求
+  if (match[2] && request.method === "POST") {
+    let options: ReplayOptions;
+    try {
+      const text = await request.text();
+      options = text ? JSON.parse(text) : {};
+      if (options.targetUrl) {
+        new URL(options.targetUrl);
       }
+    } catch {
+      return new Response(JSON.stringify({ error: "重放参数无效，请检查JSON格式和目标URL" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
     }
     
-    // 切换调试模式
-    async function toggleDebugMode() {
-      const toggleBtn = document.getElementById('toggleBtn');
-      toggleBtn.disabled = true;
+    try {
+      const result = await replayLog(log, options);
+      logger.info(`已重放日志 ${log.id}，新日志: ${result.logId}，状态码: ${result.status}`);
+      
+      return new Response(JSON.stringify({ success: true, ...result }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ 
+        error: "重放请求失败",
+        message: (error as Error).message 
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// 处理代理目标修改API
+async function handleProxyTargetApi(request: Request): Promise<Response> {
+  if (request.method === "POST") {
+    try {
+      const requestData = await request.json();
+      const newTargetUrl = requestData.targetUrl;
       
+      // 验证URL格式
       try {
-        const response = await fetch('/api/debug/toggle', {
-          method: 'POST'
+        new URL(newTargetUrl);
+      } catch (e) {
+        return new Response(JSON.stringify({ error: "无效的URL格式" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
         });
-        
-        const result = await response.json();
-        updateDebugStatus(result);
-        loadLogs();
-        
-      } catch (error) {
-        console.error('切换调试模式失败:', error);
-        alert('操作失败，请重试');
-      } finally {
-        toggleBtn.disabled = false;
       }
-    }
-    
-    // 更新调试状态UI
-    function updateDebugStatus(status) {
-      const statusDot = document.getElementById('statusDot');
-      const statusText = document.getElementById('statusText');
-      const toggleBtn = document.getElementById('toggleBtn');
-      const statusInfo = document.getElementById('statusInfo');
       
-      if (status.isDebugMode) {
-        statusDot.classList.add('active');
-        statusText.textContent = '调试模式已开启';
-        toggleBtn.textContent = '关闭调试';
-        toggleBtn.classList.add('toggle-off');
-        
-        statusInfo.innerHTML = \`反代目标: \${status.targetUrl}<br>已记录 \${status.logCount} 个请求\`;
-      } else {
-        statusDot.classList.remove('active');
-        statusText.textContent = '调试模式已关闭';
-        toggleBtn.textContent = '开启调试';
-        toggleBtn.classList.remove('toggle-off');
-        statusInfo.innerHTML = \`反代目标: \${status.targetUrl}\`;
+      // 更新全局设置
+      const oldTargetUrl = TARGET_URL;
+      TARGET_URL = newTargetUrl;
+      
+      // 如果启用了KV存储，也保存到KV
+      if (kv) {
+        await kv.set(["proxyConfig"], { targetUrl: newTargetUrl });
       }
       
-      // 同时更新输入框的值，确保它与当前代理目标一致
-      document.getElementById('proxyTargetInput').value = status.targetUrl || TARGET_URL;
-    }
-    
-    // 复制文本到剪贴板
-    function copyToClipboard(text, buttonId) {
-      navigator.clipboard.writeText(text).then(() => {
-        // 显示复制成功提示
-        const button = document.getElementById(buttonId);
-        const feedback = button.nextElementSibling;
-        feedback.classList.add('show');
-        
-        // 2秒后隐藏提示
-        setTimeout(() => {
-          feedback.classList.remove('show');
-        }, 2000);
-      }).catch(err => {
-        console.error('复制失败:', err);
-        alert('复制失败，请手动复制');
+      logger.info(`代理目标已从 ${oldTargetUrl} 更改为 ${newTargetUrl}`);
+      
+      return new Response(JSON.stringify({ 
+        success: true, 
+        message: "代理目标已更改",
+        targetUrl: newTargetUrl
+      }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ 
+        error: "处理请求失败",
+        message: error.message 
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
       });
     }
-    
-    // 加载日志
-    async function loadLogs() {
-      const logList = document.getElementById('logList');
-      
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// 将字节内容解码为日志文本，非UTF-8内容记录为二进制提示
+function decodeBodyForLog(bytes: Uint8Array, label: string): string {
+  if (bytes.byteLength === 0) {
+    return `[${label}为空]`;
+  }
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+  } catch {
+    return `[二进制${label}, 大小: ${bytes.byteLength} 字节]`;
+  }
+}
+
+// 根据 Content-Length 得到响应体的预期大小；经过压缩的响应解码后大小不同，无法判断
+function getExpectedBodyBytes(headers: Headers): number | undefined {
+  if (headers.has("content-encoding") || !headers.has("content-length")) return undefined;
+  const length = Number(headers.get("content-length"));
+  return Number.isFinite(length) ? length : undefined;
+}
+
+// 分流响应体：返回给客户端的流会实时转发每个数据块，
+// 另一路在后台完整收集内容，两路都结束后调用 onFinish
+function teeResponseBody(
+  body: ReadableStream<Uint8Array>,
+  onFinish: (captured: Uint8Array, outcome: StreamOutcome) => void | Promise<void>,
+  expectedBytes?: number
+): ReadableStream<Uint8Array> {
+  const [clientBranch, logBranch] = body.tee();
+  const clientReader = clientBranch.getReader();
+  const logReader = logBranch.getReader();
+  
+  let outcome: StreamOutcome = "completed";
+  let cancelled = false;
+  let delivered = 0;
+  let settleClient: () => void;
+  const clientSettled = new Promise<void>((resolve) => settleClient = resolve);
+  
+  const clientStream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
       try {
-        const statusResponse = await fetch('/api/debug/status');
-        const status = await statusResponse.json();
-        
-        if (!status.isDebugMode) {
-          logList.innerHTML = '<div class="empty-state">调试模式已关闭，开启后将在此显示请求日志</div>';
-          return;
-        }
-        
-        logList.innerHTML = '<div class="loading">加载中...</div>';
-        
-        const response = await fetch('/api/logs');
-        const logs = await response.json();
-        
-        if (logs.length === 0) {
-          logList.innerHTML = '<div class="empty-state">暂无请求日志</div>';
-          return;
+        const { done, value } = await clientReader.read();
+        // 客户端已取消时，挂起中的读取会返回 done，此时不再操作控制器
+        if (cancelled) return;
+        if (done) {
+          controller.close();
+          settleClient();
+        } else {
+          delivered += value.byteLength;
+          controller.enqueue(value);
         }
-        
-        let html = '';
-        logs.forEach((log, index) => {
-          const methodClass = log.method.toLowerCase();
-          const requestBodyId = \`request-body-\${index}-\${log.id}\`;
-          const responseBodyId = \`response-body-\${index}-\${log.id}\`;
-          const requestCopyBtnId = \`copy-request-\${index}-\${log.id}\`;
-          const responseCopyBtnId = \`copy-response-\${index}-\${log.id}\`;
-          
-          html += \`
-            <div class="log-item">
-              <div class="log-header">
-                <span class="method \${methodClass}">\${log.method}</span>
-                <span class="timestamp">\${formatTimestamp(log.timestamp)}</span>
-              </div>
-              <div class="log-url">\${log.path}</div>
-              <div class="log-headers" onclick="toggleHeaders('headers-\${log.id}')">
-                请求头 (点击展开)
-                <div id="headers-\${log.id}" class="log-headers-content">
-                  <pre>\${JSON.stringify(log.headers, null, 2)}</pre>
-                </div>
-              </div>
-              <div class="log-body-label">原始请求体:</div>
-              <div class="log-body-container">
-                <pre id="\${requestBodyId}" class="log-body">\${formatBody(log.body)}</pre>
-                <button id="\${requestCopyBtnId}" class="copy-button" onclick="copyToClipboard(document.getElementById('\${requestBodyId}').textContent, '\${requestCopyBtnId}')">复制</button>
-                <div class="copy-feedback">已复制!</div>
-              </div>
-              
-              <!-- 添加响应内容部分 -->
-              \${log.responseBody ? \`
-                <div class="log-body-label" style="margin-top: 15px; color: #2196F3; font-weight: bold;">
-                  目标服务器响应内容: 
-                  <span style="background-color: \${log.responseStatus && log.responseStatus >= 200 && log.responseStatus < 300 ? '#e8f5e9' : '#ffebee'}; padding: 3px 6px; border-radius: 4px; font-size: 0.85em;">
-                    状态码: \${log.responseStatus || '未知'}
-                  </span>
-                </div>
-                <div class="log-body-container">
-                  <pre id="\${responseBodyId}" class="log-body" style="border-left: 4px solid #2196F3;">\${formatBody(log.responseBody)}</pre>
-                  <button id="\${responseCopyBtnId}" class="copy-button" onclick="copyToClipboard(document.getElementById('\${responseBodyId}').textContent, '\${responseCopyBtnId}')">复制</button>
-                  <div class="copy-feedback">已复制!</div>
-                </div>
-              \` : ''}
-            </div>
-          \`;
-        });
-        
-        logList.innerHTML = html;
       } catch (error) {
-        logList.innerHTML = '<div class="empty-state">加载失败，请重试</div>';
-        console.error('加载日志失败:', error);
+        if (cancelled) return;
+        outcome = "error";
+        controller.error(error);
+        settleClient();
       }
+    },
+    async cancel(reason) {
+      cancelled = true;
+      // 客户端收齐 Content-Length 指定的字节后可能在流结束前就关闭连接，这种情况仍视为完整结束
+      if (expectedBytes === undefined || delivered < expectedBytes) outcome = "cancelled";
+      settleClient();
+      // 两个分支都取消后才会取消上游响应，客户端取消时日志只保留已收到的部分
+      await Promise.all([clientReader.cancel(reason), outcome === "cancelled" ? logReader.cancel(reason) : undefined]);
     }
-    
-    // 切换请求头显示
-    function toggleHeaders(id) {
-      const element = document.getElementById(id);
-      if (element.style.display === 'block') {
-        element.style.display = 'none';
-      } else {
-        element.style.display = 'block';
+  });
+  
+  // 后台收集日志副本
+  (async () => {
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+    try {
+      while (true) {
+        const { done, value } = await logReader.read();
+        if (done) break;
+        chunks.push(value);
+        total += value.byteLength;
       }
+    } catch (error) {
+      outcome = "error";
+      logger.error("读取响应流日志副本失败", { error });
     }
     
-    // 清除所有日志
-    async function clearLogs() {
-      if (!confirm('确定要清除所有日志吗？此操作不可撤销。')) {
-        return;
-      }
-      
-      try {
-        const response = await fetch('/api/logs', {
-          method: 'DELETE'
+    await clientSettled;
+    
+    const captured = new Uint8Array(total);
+    let offset = 0;
+    for (const chunk of chunks) {
+      captured.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    await onFinish(captured, outcome);
+  })().catch((error) => {
+    logger.error("保存流式响应日志失败", { error });
+  });
+  
+  return clientStream;
+}
+
+// 处理密钥池管理API
+async function handleKeyPoolApi(request: Request): Promise<Response> {
+  // 获取密钥池状态（不返回原始密钥）
+  if (request.method === "GET") {
+    const now = Date.now();
+    return new Response(JSON.stringify({
+      strategy: KEY_ROTATION_STRATEGY,
+      cooldownMs: KEY_COOLDOWN_MS,
+      accessTokenCount: PROXY_ACCESS_TOKENS.length,
+      keys: keyPool.keys.map((item) => ({
+        id: item.id,
+        maskedKey: maskSecret(item.key),
+        source: item.source,
+        lastUsedAt: item.lastUsedAt || null,
+        coolingDown: item.cooldownUntil > now,
+        cooldownUntil: item.cooldownUntil > now ? item.cooldownUntil : null,
+        failures: item.failures,
+      }))
+    }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  // 添加密钥，保存到KV
+  if (request.method === "POST") {
+    try {
+      const requestData = await request.json();
+      const keys: unknown[] = Array.isArray(requestData.keys) ? requestData.keys : [];
+      const validKeys = keys.filter((key): key is string => typeof key === "string" && key.trim() !== "").map((key) => key.trim());
+      if (validKeys.length === 0) {
+        return new Response(JSON.stringify({ error: "请提供至少一个密钥" }), {
+          status: 400,
+          headers: { "Content-Type": "application/json" }
         });
-        
-        if (response.ok) {
-          alert('日志已清除');
-          loadLogs();
-          
-          // 更新状态信息
-          const statusResponse = await fetch('/api/debug/status');
-          const status = await statusResponse.json();
-          updateDebugStatus(status);
-        } else {
-          alert('清除日志失败');
-        }
-      } catch (error) {
-        alert('清除日志失败');
-        console.error('清除日志失败:', error);
       }
+      
+      const added = await addPoolKeys(validKeys, "kv");
+      await persistKeyPool();
+      logger.info(`密钥池新增 ${added} 个密钥，当前总数: ${keyPool.keys.length}`);
+      
+      return new Response(JSON.stringify({ success: true, added, total: keyPool.keys.length }), {
+        headers: { "Content-Type": "application/json" }
+      });
+    } catch (error) {
+      return new Response(JSON.stringify({ 
+        error: "处理请求失败",
+        message: (error as Error).message 
+      }), {
+        status: 500,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+  }
+  
+  // 按指纹删除通过API添加的密钥，环境变量中的密钥不能删除
+  if (request.method === "DELETE") {
+    const id = new URL(request.url).searchParams.get("id");
+    const target = keyPool.keys.find((item) => item.id === id);
+    if (!target) {
+      return new Response(JSON.stringify({ error: "未找到该密钥" }), {
+        status: 404,
+        headers: { "Content-Type": "application/json" }
+      });
+    }
+    if (target.source === "env") {
+      return new Response(JSON.stringify({ error: "环境变量中配置的密钥不能通过API删除" }), {
+        status: 400,
+        headers: { "Content-Type": "application/json" }
+      });
     }
     
-    // 页面加载时初始化
-    async function init() {
-      try {
-        const status = await getDebugStatus();
-        updateDebugStatus(status);
-        loadLogs();
-      } catch (error) {
-        console.error('初始化失败:', error);
-      }
+    keyPool.keys = keyPool.keys.filter((item) => item !== target);
+    keyPool.cursor = 0;
+    await persistKeyPool();
+    
+    return new Response(JSON.stringify({ success: true, total: keyPool.keys.length }), {
+      headers: { "Content-Type": "application/json" }
+    });
+  }
+  
+  return new Response(JSON.stringify({ error: "不支持的方法" }), {
+    status: 405,
+    headers: { "Content-Type": "application/json" }
+  });
+}
+
+// 读取完整请求体，以便在切换密钥时重新发送
+async function readRequestBody(request: Request): Promise<ArrayBuffer | null> {
+  if (request.method === "GET" || request.method === "HEAD" || !request.body) {
+    return null;
+  }
+  return await request.arrayBuffer();
+}
+
+// handleProxy 的附加选项，用于重放等内部调用
+interface ProxyOptions {
+  targetUrl?: string; // 覆盖路由，直接转发到指定目标
+  forceCapture?: boolean; // 即使未开启调试模式也记录日志
+  logExtra?: Partial<RequestLog>; // 写入日志条目的附加字段（如预先生成的ID）
+  noCache?: boolean; // 跳过响应缓存
+}
+
+// 处理代理转发，并在响应体传输结束后记录监控指标
+async function handleProxy(request: Request, options: ProxyOptions = {}): Promise<Response> {
+  const observation: ProxyObservation = {
+    startedAt: Date.now(),
+    route: options.targetUrl ? "replay" : "default",
+    model: "unknown", // 请求上游后才设置为实际应答的模型
+    attempts: [],
+  };
+  
+  metrics.inFlight++;
+  const response = await forwardRequest(request, options, observation);
+  // 模型名来自客户端，上游拒绝的请求（模型不存在、密钥无效等）不使用它作为标签，避免指标被任意请求撑大
+  if (response.status >= 400 && response.status !== 429 && response.status < 500) {
+    observation.model = "unknown";
+  }
+  const finish = (bytes: number) => {
+    metrics.inFlight--;
+    recordProxyMetrics(observation, response.status, buildRequestTiming(observation, bytes));
+  };
+  
+  if (!response.body) {
+    finish(0);
+    return response;
+  }
+  return new Response(observeResponseBody(response.body, finish), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  });
+}
+
+// 转发请求到上游，调试模式下记录日志；路由、重试次数和首字节耗时写入 observation
+async function forwardRequest(request: Request, options: ProxyOptions, observation: ProxyObservation): Promise<Response> {
+  try {
+    // 先按模型策略检查并改写模型，之后的路由、密钥校验和缓存都使用实际转发的模型
+    const modelPolicy = await applyModelPolicy(request, new URL(request.url));
+    if (modelPolicy instanceof Response) {
+      return modelPolicy;
+    }
+    request = modelPolicy.request;
+    const url = modelPolicy.url;
+    const { route, targetUrl } = options.targetUrl
+      ? { route: null, targetUrl: new URL(url.pathname + url.search, options.targetUrl) }
+      : resolveRoute(request, url);
+    const routeName = options.targetUrl ? "replay" : route?.name || "default";
+    observation.route = routeName;
+    // 客户端使用虚拟密钥时先校验权限，转发时替换为对应的上游密钥
+    const virtualKey = await authorizeVirtualKey(request, url, modelPolicy.requestedModel);
+    if (virtualKey instanceof Response) {
+      return virtualKey;
     }
+    // 按改写规则修改请求体和转发的请求头，日志、缓存键和上游请求都使用改写后的内容
+    const rewriteRules = matchRewriteRules(state.rewriteRules, url.pathname, extractModelFromPath(url.pathname) || "");
+    request = await applyRequestRewrites(request, rewriteRules);
+    const upstreamHeaders = buildUpstreamHeaders(request, route);
+    for (const rule of rewriteRules) {
+      applyHeaderRewrite(upstreamHeaders, rule.requestHeaders);
+    }
+    if (rewriteRules.some((rule) => rule.responseBody)) {
+      // 改写响应体需要未压缩的内容
+      upstreamHeaders.delete("accept-encoding");
+    }
+    const usePool = virtualKey
+      ? applyVirtualKey(virtualKey, upstreamHeaders, targetUrl)
+      : shouldUseKeyPool(request, url);
     
-    // 绑定事件处理器
-    document.getElementById('toggleBtn').addEventListener('click', toggleDebugMode);
-    document.getElementById('refreshBtn').addEventListener('click', loadLogs);
-    document.getElementById('clearBtn').addEventListener('click', clearLogs);
-    document.getElementById('saveProxyTargetBtn').addEventListener('click', saveProxyTarget);
+    const cacheTtl = options.noCache ? null : getCacheTtl(request, route, targetUrl);
+    const cacheScope = getCacheScope(request, url, virtualKey);
+    const fallbackChain = findFallbackChain(extractModelFromPath(targetUrl.pathname) || "");
     
-    // 页面加载完成后初始化
-    window.onload = init;
+    // 使用密钥池、可能重试、可能降级或需要计算缓存键时需要缓冲请求体
+    const bufferBody = usePool || isRetryableRequest(request) || cacheTtl !== null || fallbackChain.length > 0;
+    const attempts = observation.attempts;
+    const fallbackSteps: FallbackStep[] = [];
+    // 请求上游，返回实际应答的上游地址；降级后用应答的模型统计指标
+    const fetchResponse = async () => {
+      const result = await fetchWithFallback(request, targetUrl, upstreamHeaders, await readBody(), usePool, attempts, getUpstreamTimeouts(route), cacheTtl, cacheScope, virtualKey, fallbackChain, fallbackSteps);
+      observation.ttfbMs = Date.now() - observation.startedAt;
+      observation.cacheStatus = result.cacheStatus;
+      observation.model = extractModelFromPath(result.targetUrl.pathname) || observation.model;
+      return result;
+    };
+    // 缓冲后的请求体可以直接统计大小，流式请求体只能参考 Content-Length
+    const readBody = async () => {
+      const body = bufferBody ? await readRequestBody(request) : request.body;
+      observation.requestBytes = body instanceof ArrayBuffer
+        ? body.byteLength
+        : Number(request.headers.get("content-length")) || undefined;
+      return body;
+    };
+    
+    // 按采集规则决定是否记录日志，重放等内部调用总是完整记录
+    const capturePlan: CapturePlan = options.forceCapture
+      ? { candidates: [], fallback: "full" }
+      : planCapture(request, url);
+    const preparation = getCapturePreparation(capturePlan);
+    
+    if (preparation === "none") {
+      // 不需要记录日志时直接转发
+      const { response, cacheStatus, targetUrl: servedUrl } = await fetchResponse();
+      // 缓存命中时没有消耗上游token，不计入用量；用量按改写前的响应统计
+      return applyResponseRewrites(cacheStatus === "HIT" ? response : withUsageTracking(request, response, servedUrl, attempts), rewriteRules);
+    }
 
-    // 保存代理目标设置
-    async function saveProxyTarget() {
-      const targetInput = document.getElementById('proxyTargetInput');
-      const newTarget = targetInput.value.trim();
-      
-      if (!newTarget) {
-        alert('请输入有效的代理目标URL');
-        return;
-      }
-      
-      // 验证URL格式
-      try {
-        new URL(newTarget);
-      } catch (e) {
-        alert('请输入有效的URL格式（例如: https://example.com）');
-        return;
-      }
-      
+    // --- 以下为记录日志的逻辑 ---
+    logger.debug(`转发请求到: ${redactUrl(targetUrl.toString())} (路由: ${routeName})`);
+
+    // 克隆请求以备后续操作
+    const requestForLog = request.clone();
+    // 预先确定日志ID，进行中的日志和最终保存的日志使用同一个ID
+    const logExtra: Partial<RequestLog> = { ...options.logExtra, id: options.logExtra?.id || generateLogId(), keyLabel: virtualKey?.label, requestedModel: modelPolicy.requestedModel, rewriteRules: rewriteRules.length > 0 ? rewriteRules.map((rule) => rule.name) : undefined };
+    
+    let requestBodyText = "[请求体未读取或非文本类型]";
+
+    if (preparation === "headers") {
+      requestBodyText = HEADERS_ONLY_REQUEST_BODY;
+    } else if (request.method !== "GET" && request.method !== "HEAD" && request.body) {
       try {
-        const response = await fetch('/api/proxy/target', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({ targetUrl: newTarget })
-        });
-        
-        const result = await response.json();
-        
-        if (result.success) {
-          // 立即更新状态栏和输入框显示
-          const targetUrl = result.targetUrl;
-          document.getElementById('statusInfo').innerHTML = \`反代目标: \${targetUrl}\`;
-          document.getElementById('proxyTargetInput').value = targetUrl;
-          
-          alert('代理目标已成功更改');
-          
-          // 如果当前在调试模式，也更新调试信息
-          if (document.getElementById('statusDot').classList.contains('active')) {
-            const statusResponse = await fetch('/api/debug/status');
-            const status = await statusResponse.json();
-            updateDebugStatus(status);
-          }
+        logger.debug("尝试读取请求体...");
+        const bodyBuffer = await request.clone().arrayBuffer();
+        // 尝试用UTF-8解码，如果失败则认为是二进制
+        if (bodyBuffer.byteLength > 0) {
+            try {
+                requestBodyText = new TextDecoder("utf-8", { fatal: true }).decode(bodyBuffer);
+                logger.debug("请求体读取成功 (文本)。");
+                logFullContent("原始请求体", redactBody(requestBodyText));
+            } catch {
+                requestBodyText = `[二进制请求体, 大小: ${bodyBuffer.byteLength} 字节]`;
+                logger.debug("请求体读取为二进制。");
+            }
         } else {
-          alert(\`更改失败: \${result.error}\`);
+            requestBodyText = "[请求体为空]";
+            logger.debug("请求体为空。");
         }
       } catch (error) {
-        alert('操作失败，请重试');
-        console.error('保存代理目标失败:', error);
+        requestBodyText = `[!!! 读取请求体失败: ${error.message}]`;
+        logger.error("读取请求体时发生严重错误", { error });
       }
+    } else {
+      requestBodyText = "[无请求体 (GET/HEAD 或 body 为空)]";
     }
-  </script>
-</body>
-</html>
-  `;
-}
 
-// 处理调试API
-async function handleDebugApi(request: Request, path: string): Promise<Response> {
-  // 获取调试状态
-  if (path === "/api/debug/status" && request.method === "GET") {
-    // 如果使用KV存储，获取最新的日志计数
-    let logCount = state.logs.length;
-    if (kv && state.isDebugMode) {
-      try {
-        const logIds = await kv.get<string[]>(["logIds"]);
-        if (logIds?.value) {
-          logCount = logIds.value.length;
-        }
-      } catch (error) {
-        console.error("获取KV日志计数失败:", error);
+    // 发送请求到目标服务器 (使用原始的 request 对象)
+    let response: Response;
+    let cacheStatus: CacheStatus | undefined;
+    let servedUrl: URL;
+    try {
+      ({ response, cacheStatus, targetUrl: servedUrl } = await fetchResponse());
+      if (fallbackSteps.length > 1) {
+        logExtra.fallback = fallbackSteps;
+      }
+    } catch (error) {
+      // 所有尝试都失败时也记录日志，便于在调试页面查看每次尝试的情况
+      const capture = resolveCaptureMode(capturePlan);
+      if (capture.mode !== "none") {
+        await saveRequestLog(requestForLog, capture.mode === "full" ? requestBodyText : HEADERS_ONLY_REQUEST_BODY, `[!!! 上游请求失败: ${(error as Error).message}]`, undefined, {
+          ...logExtra,
+          captureRule: capture.rule,
+          route: routeName,
+          attempts,
+          fallback: fallbackSteps.length > 1 ? fallbackSteps : undefined,
+          timing: buildRequestTiming(observation)
+        });
       }
+      throw error;
+    }
+    if (cacheStatus !== "HIT") {
+      response = withUsageTracking(request, response, servedUrl, attempts);
+    }
+    // 日志记录的是改写后返回给客户端的响应
+    response = applyResponseRewrites(response, rewriteRules);
+    
+    logger.debug(`目标服务器响应状态: ${response.status}${cacheStatus ? ` (缓存: ${cacheStatus})` : ""}`);
+    
+    // 拿到状态码后才能确定最终的采集方式
+    const capture = resolveCaptureMode(capturePlan, response.status);
+    if (capture.mode === "none") {
+      return response;
+    }
+    
+    // 只记录请求头时不需要收集响应体，直接记录并返回
+    if (capture.mode === "headers") {
+      await saveRequestLog(requestForLog, HEADERS_ONLY_REQUEST_BODY, HEADERS_ONLY_RESPONSE_BODY, response.status, {
+        ...logExtra,
+        captureRule: capture.rule,
+        route: routeName,
+        attempts,
+        cache: cacheStatus,
+        responseHeaders: redactHeaders(response.headers),
+        timing: buildRequestTiming(observation)
+      });
+      return response;
+    }
+    logExtra.captureRule = capture.rule;
+    
+    // 没有响应体时直接记录并返回
+    if (!response.body) {
+      await saveRequestLog(requestForLog, requestBodyText, "[响应体为空]", response.status, {
+        ...logExtra,
+        streamStatus: "completed",
+        route: routeName,
+        attempts,
+        cache: cacheStatus,
+        responseHeaders: redactHeaders(response.headers),
+        timing: buildRequestTiming(observation, 0)
+      });
+      return response;
+    }
+    
+    // 响应传输期间先推送一条进行中的日志
+    if (logListeners.size > 0) {
+      createLogEntry(requestForLog, requestBodyText, "[响应传输中...]", response.status, { ...logExtra, route: routeName, attempts, cache: cacheStatus })
+        .then((log) => publishLogEvent("pending", log))
+        .catch((error) => {
+          logger.error("推送进行中的日志失败", { path: url.pathname, error });
+        });
     }
     
+    // 响应体分流：客户端实时收到数据块，日志副本在后台收集，流结束后再保存日志
+    const clientBody = teeResponseBody(response.body, async (captured, outcome) => {
+      let responseBodyText = decodeBodyForLog(captured, "响应体");
+      logFullContent("目标服务器的响应内容", redactBody(responseBodyText));
+      const timedOutAttempt = attempts.find((attempt) => attempt.timeout === "idle");
+      if (outcome === "cancelled") {
+        logger.debug("客户端在响应结束前取消了请求");
+      } else if (outcome === "error") {
+        responseBodyText += timedOutAttempt ? `\n[!!! ${timedOutAttempt.error}，内容不完整]` : "\n[!!! 响应流读取出错，内容可能不完整]";
+      }
+      
+      await saveRequestLog(requestForLog, requestBodyText, responseBodyText, response.status, {
+        ...logExtra,
+        streamStatus: outcome,
+        route: routeName,
+        attempts,
+        cache: cacheStatus,
+        responseHeaders: redactHeaders(response.headers),
+        timing: buildRequestTiming(observation, captured.byteLength)
+      });
+    }, getExpectedBodyBytes(response.headers));
+    
+    return new Response(clientBody, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: new Headers(response.headers)
+    });
+
+  } catch (error) {
+    if (error instanceof UpstreamTimeoutError) {
+      logger.warn(error.message, { phase: error.phase, path: new URL(request.url).pathname });
+      return geminiErrorResponse(504, error.message, "DEADLINE_EXCEEDED");
+    }
+    if (request.signal.aborted) {
+      // 客户端已断开，响应不会被读取，状态码只用于指标和访问日志
+      logger.info('客户端已断开，上游请求已取消');
+      return new Response(null, { status: 499 });
+    }
+    logger.error('代理请求失败', { error });
     return new Response(JSON.stringify({
-      isDebugMode: state.isDebugMode,
-      logCount: logCount,
-      targetUrl: TARGET_URL
+      error: '代理请求失败',
+      message: error.message
     }), {
-      headers: { "Content-Type": "application/json" }
+      status: 500,
+      headers: { 
+        'Content-Type': 'application/json',
+        'Access-Control-Allow-Origin': '*'
+      }
     });
   }
+}
+
+
+// ===== OpenAI 兼容接口 =====
+// 将 /v1/chat/completions 和 /v1/models 转换为 Gemini 请求，经由 handleProxy 转发后再转换回 OpenAI 格式
+
+interface OpenAIContentPart {
+  type: string;
+  text?: string;
+  image_url?: { url: string } | string;
+  input_audio?: { data: string; format: string };
+}
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
+
+interface OpenAIMessage {
+  role: string;
+  content?: string | OpenAIContentPart[] | null;
+  tool_calls?: OpenAIToolCall[];
+  tool_call_id?: string;
+  name?: string;
+}
+
+interface OpenAITool {
+  type: string;
+  function?: { name: string; description?: string; parameters?: Record<string, unknown> };
+}
+
+interface OpenAIChatRequest {
+  model?: string;
+  messages?: OpenAIMessage[];
+  stream?: boolean;
+  stream_options?: { include_usage?: boolean };
+  temperature?: number;
+  top_p?: number;
+  n?: number;
+  seed?: number;
+  presence_penalty?: number;
+  frequency_penalty?: number;
+  max_tokens?: number;
+  max_completion_tokens?: number;
+  stop?: string | string[] | null;
+  response_format?: { type: string; json_schema?: { schema?: Record<string, unknown> } };
+  tools?: OpenAITool[];
+  tool_choice?: string | { type: string; function?: { name: string } };
+}
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: Record<string, unknown> };
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiCandidate {
+  content?: { parts?: GeminiPart[] };
+  finishReason?: string;
+  index?: number;
+}
+
+interface GeminiUsageMetadata {
+  promptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+  totalTokenCount?: number;
+}
+
+interface GeminiResponse {
+  candidates?: GeminiCandidate[];
+  usageMetadata?: GeminiUsageMetadata;
+}
+
+// OpenAI 格式的错误响应
+function openAIErrorResponse(status: number, message: string, type = "invalid_request_error"): Response {
+  return new Response(JSON.stringify({
+    error: { message, type, code: status }
+  }), {
+    status,
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*"
+    }
+  });
+}
+
+// 判断IP地址是否属于本机、内网、链路本地等不允许代理访问的地址段
+function isPrivateAddress(address: string): boolean {
+  const ip = address.toLowerCase().replace(/^\[|\]$/g, "");
+  const mapped = ip.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isPrivateAddress(mapped[1]);
+  const mappedHex = ip.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1], 16), parseInt(mappedHex[2], 16)];
+    return isPrivateAddress(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
   
-  // 切换调试模式
-  if (path === "/api/debug/toggle" && request.method === "POST") {
-    state.isDebugMode = !state.isDebugMode;
-    
-    if (state.isDebugMode) {
-      // 如果使用KV存储，也保存调试状态
-      if (kv) {
-        // 应用到所有KV存储
-        await kv.set(["debugState"], {
-          isDebugMode: true,
-        }, { expireAt });
+  const ipv4 = ip.match(/^(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (ipv4) {
+    const [a, b] = [Number(ipv4[1]), Number(ipv4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168);
+  }
+  
+  if (ip.includes(":")) {
+    return ip === "::" || ip === "::1" || /^f[cd]/.test(ip) || /^fe[89ab]/.test(ip) || /^ff/.test(ip);
+  }
+  return false;
+}
+
+// 检查远程图片地址：只允许 http/https，且主机名及其解析结果都不能是内网地址
+async function assertPublicImageUrl(url: URL): Promise<void> {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`不支持的图片地址协议: ${url.protocol}`);
+  }
+  
+  const hostname = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (hostname === "localhost" || hostname.endsWith(".localhost") || isPrivateAddress(hostname)) {
+    throw new Error(`不允许访问内网地址: ${url.hostname}`);
+  }
+  if (/^[\d.]+$/.test(hostname) || hostname.includes(":")) return;
+  
+  const addresses = (await Promise.all([
+    Deno.resolveDns(hostname, "A").catch(() => [] as string[]),
+    Deno.resolveDns(hostname, "AAAA").catch(() => [] as string[]),
+  ])).flat();
+  if (addresses.length === 0) {
+    throw new Error(`无法解析图片地址: ${url.hostname}`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`不允许访问内网地址: ${url.hostname}`);
+  }
+}
+
+// 将图片地址转换为 Gemini 的 inlineData，data URL 直接解析，远程地址先下载
+// 远程下载会校验每一跳重定向的地址，并限制超时、大小和内容类型
+async function imageUrlToInlineData(imageUrl: string): Promise<GeminiPart> {
+  const dataUrlMatch = imageUrl.match(/^data:([^;,]+)?(?:;[^,]*)?;base64,(.*)$/s);
+  if (dataUrlMatch) {
+    return { inlineData: { mimeType: dataUrlMatch[1] || "image/png", data: dataUrlMatch[2] } };
+  }
+  
+  const signal = AbortSignal.timeout(IMAGE_URL_TIMEOUT_MS);
+  let url = new URL(imageUrl);
+  let response: Response;
+  for (let redirects = 0; ; redirects++) {
+    await assertPublicImageUrl(url);
+    response = await fetch(url, { signal, redirect: "manual" });
+    const location = response.headers.get("location");
+    if (response.status < 300 || response.status >= 400 || !location) break;
+    await response.body?.cancel();
+    if (redirects >= 3) {
+      throw new Error(`图片地址重定向次数过多: ${imageUrl}`);
+    }
+    url = new URL(location, url);
+  }
+  
+  if (!response.ok) {
+    await response.body?.cancel();
+    throw new Error(`下载图片失败 (${response.status}): ${imageUrl}`);
+  }
+  const mimeType = response.headers.get("content-type")?.split(";")[0].trim().toLowerCase() || "";
+  if (!mimeType.startsWith("image/")) {
+    await response.body?.cancel();
+    throw new Error(`图片地址返回的不是图片 (${mimeType || "未知类型"}): ${imageUrl}`);
+  }
+  if (Number(response.headers.get("content-length")) > IMAGE_URL_MAX_BYTES) {
+    await response.body?.cancel();
+    throw new Error(`图片超过大小上限 ${IMAGE_URL_MAX_BYTES} 字节: ${imageUrl}`);
+  }
+  
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  if (response.body) {
+    const reader = response.body.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      total += value.byteLength;
+      if (total > IMAGE_URL_MAX_BYTES) {
+        await reader.cancel();
+        throw new Error(`图片超过大小上限 ${IMAGE_URL_MAX_BYTES} 字节: ${imageUrl}`);
       }
+      chunks.push(value);
+    }
+  }
+  const bytes = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { inlineData: { mimeType, data: bytesToBase64(bytes) } };
+}
+
+// 转换单条消息的内容
+async function convertOpenAIContent(content: OpenAIMessage["content"]): Promise<GeminiPart[]> {
+  if (content === null || content === undefined) return [];
+  if (typeof content === "string") return content ? [{ text: content }] : [];
+  
+  const parts: GeminiPart[] = [];
+  for (const part of content) {
+    if (part.type === "text" && part.text) {
+      parts.push({ text: part.text });
+    } else if (part.type === "image_url" && part.image_url) {
+      const imageUrl = typeof part.image_url === "string" ? part.image_url : part.image_url.url;
+      parts.push(await imageUrlToInlineData(imageUrl));
+    } else if (part.type === "input_audio" && part.input_audio) {
+      parts.push({ inlineData: { mimeType: `audio/${part.input_audio.format}`, data: part.input_audio.data } });
+    }
+  }
+  return parts;
+}
+
+// 解析工具调用参数，无法解析时原样包装
+function parseToolArguments(args: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(args || "{}");
+    return parsed && typeof parsed === "object" ? parsed : { value: parsed };
+  } catch {
+    return { value: args };
+  }
+}
+
+// 将 OpenAI chat.completions 请求转换为 Gemini generateContent 请求体
+async function convertOpenAIRequest(body: OpenAIChatRequest): Promise<Record<string, unknown>> {
+  const messages: OpenAIMessage[] = Array.isArray(body.messages) ? body.messages : [];
+  const systemParts: GeminiPart[] = [];
+  const contents: GeminiContent[] = [];
+  const toolNamesById = new Map<string, string>();
+  
+  const pushContent = (role: GeminiContent["role"], parts: GeminiPart[]) => {
+    if (parts.length === 0) return;
+    // Gemini 要求相邻消息角色交替，同角色的连续消息合并
+    const last = contents[contents.length - 1];
+    if (last && last.role === role) {
+      last.parts.push(...parts);
     } else {
-      // 如果使用KV存储，更新调试状态
-      if (kv) {
-        await kv.set(["debugState"], {
-          isDebugMode: false
+      contents.push({ role, parts });
+    }
+  };
+  
+  for (const message of messages) {
+    if (message.role === "system" || message.role === "developer") {
+      systemParts.push(...await convertOpenAIContent(message.content));
+    } else if (message.role === "assistant") {
+      const parts = await convertOpenAIContent(message.content);
+      for (const toolCall of message.tool_calls || []) {
+        toolNamesById.set(toolCall.id, toolCall.function.name);
+        parts.push({
+          functionCall: { name: toolCall.function.name, args: parseToolArguments(toolCall.function.arguments) }
         });
       }
-    }
-    
-    // 获取当前日志计数
-    let logCount = state.logs.length;
-    if (kv && state.isDebugMode) {
+      pushContent("model", parts);
+    } else if (message.role === "tool") {
+      const name = message.name || toolNamesById.get(message.tool_call_id || "") || "unknown";
+      const text = typeof message.content === "string"
+        ? message.content
+        : (message.content || []).map((part) => part.text || "").join("");
+      let response: Record<string, unknown>;
       try {
-        const logIds = await kv.get<string[]>(["logIds"]);
-        if (logIds?.value) {
-          logCount = logIds.value.length;
-        }
-      } catch (error) {
-        console.error("获取KV日志计数失败:", error);
+        const parsed = JSON.parse(text);
+        response = parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { content: parsed };
+      } catch {
+        response = { content: text };
       }
+      pushContent("user", [{ functionResponse: { name, response } }]);
+    } else {
+      pushContent("user", await convertOpenAIContent(message.content));
     }
-    
-    return new Response(JSON.stringify({
-      isDebugMode: state.isDebugMode,
-      logCount: logCount,
-      targetUrl: TARGET_URL
-    }), {
-      headers: { "Content-Type": "application/json" }
-    });
   }
   
-  return new Response(JSON.stringify({ error: "未找到API路由" }), {
-    status: 404,
-    headers: { "Content-Type": "application/json" }
-  });
+  const geminiBody: Record<string, unknown> = { contents };
+  if (systemParts.length > 0) {
+    geminiBody.systemInstruction = { parts: systemParts };
+  }
+  
+  // 生成参数
+  const generationConfig: Record<string, unknown> = {};
+  if (body.temperature !== undefined) generationConfig.temperature = body.temperature;
+  if (body.top_p !== undefined) generationConfig.topP = body.top_p;
+  if (body.n !== undefined) generationConfig.candidateCount = body.n;
+  if (body.seed !== undefined) generationConfig.seed = body.seed;
+  if (body.presence_penalty !== undefined) generationConfig.presencePenalty = body.presence_penalty;
+  if (body.frequency_penalty !== undefined) generationConfig.frequencyPenalty = body.frequency_penalty;
+  const maxTokens = body.max_completion_tokens ?? body.max_tokens;
+  if (maxTokens !== undefined) generationConfig.maxOutputTokens = maxTokens;
+  if (body.stop !== undefined && body.stop !== null) {
+    generationConfig.stopSequences = Array.isArray(body.stop) ? body.stop : [body.stop];
+  }
+  if (body.response_format?.type === "json_object") {
+    generationConfig.responseMimeType = "application/json";
+  } else if (body.response_format?.type === "json_schema") {
+    generationConfig.responseMimeType = "application/json";
+    if (body.response_format.json_schema?.schema) {
+      generationConfig.responseJsonSchema = body.response_format.json_schema.schema;
+    }
+  }
+  if (Object.keys(generationConfig).length > 0) {
+    geminiBody.generationConfig = generationConfig;
+  }
+  
+  // 工具/函数调用
+  if (Array.isArray(body.tools) && body.tools.length > 0) {
+    geminiBody.tools = [{
+      functionDeclarations: body.tools
+        .filter((tool) => tool.type === "function" && tool.function)
+        .map((tool) => ({
+          name: tool.function!.name,
+          description: tool.function!.description,
+          parameters: tool.function!.parameters,
+        }))
+    }];
+  }
+  if (body.tool_choice !== undefined) {
+    if (body.tool_choice === "none") {
+      geminiBody.toolConfig = { functionCallingConfig: { mode: "NONE" } };
+    } else if (body.tool_choice === "auto") {
+      geminiBody.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+    } else if (body.tool_choice === "required") {
+      geminiBody.toolConfig = { functionCallingConfig: { mode: "ANY" } };
+    } else if (typeof body.tool_choice === "object" && body.tool_choice.function?.name) {
+      geminiBody.toolConfig = {
+        functionCallingConfig: { mode: "ANY", allowedFunctionNames: [body.tool_choice.function.name] }
+      };
+    }
+  }
+  
+  return geminiBody;
 }
 
-// 处理日志API
-async function handleLogsApi(request: Request): Promise<Response> {
-  // 获取所有日志
-  if (request.method === "GET") {
-    if (kv && state.isDebugMode) {
-      // 从KV存储获取日志
-      const logs = await getLogsFromKV();
-      return new Response(JSON.stringify(logs), {
-        headers: { "Content-Type": "application/json" }
-      });
-    } else {
-      // 从内存获取日志
-      return new Response(JSON.stringify(state.logs), {
-        headers: { "Content-Type": "application/json" }
+// Gemini 结束原因映射为 OpenAI 的 finish_reason
+function mapFinishReason(reason: string | undefined, hasToolCalls: boolean): string | null {
+  if (!reason) return null;
+  if (hasToolCalls) return "tool_calls";
+  switch (reason) {
+    case "STOP":
+      return "stop";
+    case "MAX_TOKENS":
+      return "length";
+    case "SAFETY":
+    case "RECITATION":
+    case "BLOCKLIST":
+    case "PROHIBITED_CONTENT":
+    case "SPII":
+      return "content_filter";
+    default:
+      return "stop";
+  }
+}
+
+// 转换 token 用量
+function convertUsage(usage: GeminiUsageMetadata | undefined) {
+  if (!usage) return undefined;
+  const completionTokens = (usage.candidatesTokenCount || 0) + (usage.thoughtsTokenCount || 0);
+  return {
+    prompt_tokens: usage.promptTokenCount || 0,
+    completion_tokens: completionTokens,
+    total_tokens: usage.totalTokenCount || (usage.promptTokenCount || 0) + completionTokens,
+  };
+}
+
+// 从 Gemini 的 parts 中提取文本和工具调用（忽略思考内容）
+function extractCandidateParts(parts: GeminiPart[] | undefined) {
+  let text = "";
+  const toolCalls: OpenAIToolCall[] = [];
+  for (const part of parts || []) {
+    if (part.thought) continue;
+    if (part.text) text += part.text;
+    if (part.functionCall) {
+      toolCalls.push({
+        id: `call_${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+        type: "function",
+        function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args || {}) }
       });
     }
-  } 
-  // 清除所有日志
-  else if (request.method === "DELETE") {
-    const success = await clearAllRequestLogs();
-    return new Response(JSON.stringify({ success }), {
-      status: success ? 200 : 500,
-      headers: { "Content-Type": "application/json" }
-    });
   }
-  
-  return new Response(JSON.stringify({ error: "不支持的方法" }), {
-    status: 405,
-    headers: { "Content-Type": "application/json" }
-  });
+  return { text, toolCalls };
 }
 
-// 处理代理目标修改API
-async function handleProxyTargetApi(request: Request): Promise<Response> {
-  if (request.method === "POST") {
+// 将 Gemini 非流式响应转换为 OpenAI chat.completion
+function convertGeminiResponse(data: GeminiResponse, model: string) {
+  return {
+    id: `chatcmpl-${crypto.randomUUID()}`,
+    object: "chat.completion",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: (data.candidates || []).map((candidate, index) => {
+      const { text, toolCalls } = extractCandidateParts(candidate.content?.parts);
+      return {
+        index: candidate.index ?? index,
+        message: {
+          role: "assistant",
+          content: text || (toolCalls.length > 0 ? null : ""),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        },
+        finish_reason: mapFinishReason(candidate.finishReason || "STOP", toolCalls.length > 0),
+      };
+    }),
+    usage: convertUsage(data.usageMetadata),
+  };
+}
+
+// 将 Gemini 的 SSE 流转换为 OpenAI chat.completion.chunk 流
+function convertGeminiStream(body: ReadableStream<Uint8Array>, model: string, includeUsage: boolean): ReadableStream<Uint8Array> {
+  const id = `chatcmpl-${crypto.randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  const startedChoices = new Set<number>();
+  const toolCallCounts = new Map<number, number>();
+  let usage: GeminiUsageMetadata | undefined;
+  let buffer = "";
+  
+  const emit = (controller: TransformStreamDefaultController<Uint8Array>, payload: unknown) => {
+    controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
+  };
+  
+  const handleLine = (controller: TransformStreamDefaultController<Uint8Array>, line: string) => {
+    if (!line.startsWith("data:")) return;
+    const payload = line.slice(5).trim();
+    if (!payload) return;
+    
+    let data: GeminiResponse;
     try {
-      const requestData = await request.json();
-      const newTargetUrl = requestData.targetUrl;
-      
-      // 验证URL格式
-      try {
-        new URL(newTargetUrl);
-      } catch (e) {
-        return new Response(JSON.stringify({ error: "无效的URL格式" }), {
-          status: 400,
-          headers: { "Content-Type": "application/json" }
-        });
+      data = JSON.parse(payload);
+    } catch {
+      logger.warn("解析Gemini流式数据失败", { payload });
+      return;
+    }
+    if (data.usageMetadata) usage = data.usageMetadata;
+    
+    (data.candidates || []).forEach((candidate, position) => {
+      const index = candidate.index ?? position;
+      const { text, toolCalls } = extractCandidateParts(candidate.content?.parts);
+      const delta: Record<string, unknown> = {};
+      if (!startedChoices.has(index)) {
+        startedChoices.add(index);
+        delta.role = "assistant";
       }
-      
-      // 更新全局设置
-      const oldTargetUrl = TARGET_URL;
-      TARGET_URL = newTargetUrl;
-      
-      // 如果启用了KV存储，也保存到KV
-      if (kv) {
-        await kv.set(["proxyConfig"], { targetUrl: newTargetUrl });
+      if (text) delta.content = text;
+      if (toolCalls.length > 0) {
+        const offset = toolCallCounts.get(index) || 0;
+        delta.tool_calls = toolCalls.map((toolCall, i) => ({ index: offset + i, ...toolCall }));
+        toolCallCounts.set(index, offset + toolCalls.length);
       }
       
-      console.log(`代理目标已从 ${oldTargetUrl} 更改为 ${newTargetUrl}`);
+      const finishReason = mapFinishReason(candidate.finishReason, (toolCallCounts.get(index) || 0) > 0);
+      if (Object.keys(delta).length === 0 && !finishReason) return;
       
-      return new Response(JSON.stringify({ 
-        success: true, 
-        message: "代理目标已更改",
-        targetUrl: newTargetUrl
-      }), {
-        headers: { "Content-Type": "application/json" }
+      emit(controller, {
+        id,
+        object: "chat.completion.chunk",
+        created,
+        model,
+        choices: [{ index, delta, finish_reason: finishReason }],
       });
-    } catch (error) {
-      return new Response(JSON.stringify({ 
-        error: "处理请求失败",
-        message: error.message 
-      }), {
-        status: 500,
-        headers: { "Content-Type": "application/json" }
-      });
-    }
-  }
+    });
+  };
   
-  return new Response(JSON.stringify({ error: "不支持的方法" }), {
-    status: 405,
-    headers: { "Content-Type": "application/json" }
-  });
+  return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const lines = buffer.split(/\r?\n/);
+      buffer = lines.pop() || "";
+      for (const line of lines) {
+        handleLine(controller, line);
+      }
+    },
+    flush(controller) {
+      buffer += decoder.decode();
+      if (buffer) handleLine(controller, buffer);
+      if (includeUsage && usage) {
+        emit(controller, {
+          id,
+          object: "chat.completion.chunk",
+          created,
+          model,
+          choices: [],
+          usage: convertUsage(usage),
+        });
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+    }
+  }));
 }
 
-// 处理代理转发
-async function handleProxy(request: Request): Promise<Response> {
+// 将 Gemini 错误响应转换为 OpenAI 错误格式
+async function convertGeminiError(response: Response): Promise<Response> {
+  const text = await response.text();
+  let message = text || response.statusText;
   try {
-    const url = new URL(request.url);
-    const targetUrl = new URL(url.pathname + url.search, TARGET_URL);
-    
-    // 只在调试模式下才执行详细的日志记录和处理
-    if (!state.isDebugMode) {
-      // 如果非调试模式，直接转发，不进行任何日志记录
-      return fetch(targetUrl.toString(), {
-        method: request.method,
-        headers: request.headers,
-        body: request.body,
-        redirect: 'follow'
-      });
-    }
-
-    // --- 以下为调试模式下的逻辑 ---
-    console.log(`[调试模式] 转发请求到: ${targetUrl.toString()}`);
-
-    // 克隆请求以备后续操作
-    const requestForLog = request.clone();
-    
-    let requestBodyText = "[请求体未读取或非文本类型]";
-    let loggable = true; // 默认所有请求都应被记录
+    const data = JSON.parse(text);
+    message = data?.error?.message || data?.message || message;
+  } catch {
+    // 非JSON错误，使用原始文本
+  }
+  return openAIErrorResponse(response.status, message, "upstream_error");
+}
 
-    if (request.method !== "GET" && request.method !== "HEAD" && request.body) {
-      try {
-        console.log("[调试模式] 尝试读取请求体...");
-        const bodyBuffer = await request.clone().arrayBuffer();
-        // 尝试用UTF-8解码，如果失败则认为是二进制
-        if (bodyBuffer.byteLength > 0) {
-            try {
-                requestBodyText = new TextDecoder("utf-8", { fatal: true }).decode(bodyBuffer);
-                console.log("[调试模式] 请求体读取成功 (文本)。");
-                logFullContent("原始请求体", requestBodyText);
-            } catch {
-                requestBodyText = `[二进制请求体, 大小: ${bodyBuffer.byteLength} 字节]`;
-                console.log("[调试模式] 请求体读取为二进制。");
-            }
-        } else {
-            requestBodyText = "[请求体为空]";
-            console.log("[调试模式] 请求体为空。");
-        }
-      } catch (error) {
-        requestBodyText = `[!!! 读取请求体失败: ${error.message}]`;
-        console.error("[调试模式] 读取请求体时发生严重错误:", error);
-      }
-    } else {
-      requestBodyText = "[无请求体 (GET/HEAD 或 body 为空)]";
-    }
+// 构造发往 Gemini 的请求头：Bearer 令牌转换为 x-goog-api-key
+function buildGeminiHeaders(request: Request): Headers {
+  const headers = new Headers({ "Content-Type": "application/json" });
+  const authorization = request.headers.get("authorization") || "";
+  const apiKey = authorization.startsWith("Bearer ")
+    ? authorization.slice("Bearer ".length).trim()
+    : request.headers.get("x-goog-api-key");
+  if (apiKey) headers.set("x-goog-api-key", apiKey);
+  
+  const forwardedFor = request.headers.get("x-forwarded-for");
+  if (forwardedFor) headers.set("x-forwarded-for", forwardedFor);
+  const requestId = request.headers.get("x-request-id");
+  if (requestId) headers.set("x-request-id", requestId);
+  return headers;
+}
 
-    // 发送请求到目标服务器 (使用原始的 request 对象)
-    const response = await fetch(targetUrl.toString(), {
-      method: request.method,
-      headers: request.headers,
-      body: request.body,
-      redirect: 'follow'
-    });
-    
-    console.log(`[调试模式] 目标服务器响应状态: ${response.status}`);
-    
-    // 准备记录响应体
-    let responseBodyText = "[响应体未读取]";
-    const responseClone = response.clone();
+// 判断是否为 OpenAI 格式的请求
+function isOpenAIRequest(request: Request, path: string): boolean {
+  if (path === "/v1/chat/completions") return true;
+  // Gemini 也有 /v1/models，只有使用 Bearer 令牌且未携带 Gemini 密钥时才视为 OpenAI 请求
+  if (path === "/v1/models") {
+    const url = new URL(request.url);
+    return (request.headers.get("authorization") || "").startsWith("Bearer ") &&
+      !request.headers.get("x-goog-api-key") && !url.searchParams.has("key");
+  }
+  return false;
+}
 
-    try {
-        const bodyBuffer = await responseClone.arrayBuffer();
-        if (bodyBuffer.byteLength > 0) {
-            try {
-                responseBodyText = new TextDecoder("utf-8", { fatal: true }).decode(bodyBuffer);
-                logFullContent("目标服务器的响应内容", responseBodyText);
-            } catch {
-                responseBodyText = `[二进制响应体, 大小: ${bodyBuffer.byteLength} 字节]`;
-            }
-        } else {
-            responseBodyText = "[响应体为空]";
-        }
-    } catch (error) {
-        responseBodyText = `[!!! 读取响应体失败: ${error.message}]`;
-        console.error("[调试模式] 读取响应体失败:", error);
+// 处理 OpenAI 兼容请求
+async function handleOpenAIRequest(request: Request, path: string): Promise<Response> {
+  const url = new URL(request.url);
+  
+  // 模型列表
+  if (path === "/v1/models") {
+    if (request.method !== "GET") {
+      return openAIErrorResponse(405, "不支持的方法");
     }
-    
-    // **关键修改：无论如何都保存日志**
-    if (loggable) {
-      await saveRequestLog(requestForLog, requestBodyText, responseBodyText, response.status);
+    const response = await handleProxy(new Request(new URL("/v1beta/models?pageSize=1000", url), {
+      method: "GET",
+      headers: buildGeminiHeaders(request),
+    }));
+    if (!response.ok) {
+      return await convertGeminiError(response);
     }
-    
-    // 返回克隆的响应，因为原始响应的 body 可能已被读取
-    return new Response(response.body, {
-      status: response.status,
-      statusText: response.statusText,
-      headers: new Headers(response.headers)
-    });
-
-  } catch (error) {
-    console.error('代理请求失败:', error);
+    const data: { models?: { name?: string }[] } = await response.json();
     return new Response(JSON.stringify({
-      error: '代理请求失败',
-      message: error.message
+      object: "list",
+      data: (data.models || []).map((model) => ({
+        id: String(model.name || "").replace(/^models\//, ""),
+        object: "model",
+        created: 0,
+        owned_by: "google",
+      }))
     }), {
-      status: 500,
-      headers: { 
-        'Content-Type': 'application/json',
-        'Access-Control-Allow-Origin': '*'
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*"
+      }
+    });
+  }
+  
+  // 对话补全
+  if (request.method !== "POST") {
+    return openAIErrorResponse(405, "不支持的方法");
+  }
+  
+  let body: OpenAIChatRequest;
+  let geminiBody: Record<string, unknown>;
+  try {
+    body = await request.json();
+    geminiBody = await convertOpenAIRequest(body);
+  } catch (error) {
+    return openAIErrorResponse(400, `请求格式错误: ${(error as Error).message}`);
+  }
+  
+  const model = String(body.model || "").replace(/^models\//, "");
+  if (!model) {
+    return openAIErrorResponse(400, "缺少 model 参数");
+  }
+  
+  const stream = body.stream === true;
+  const geminiPath = stream
+    ? `/v1beta/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`
+    : `/v1beta/models/${encodeURIComponent(model)}:generateContent`;
+  
+  const response = await handleProxy(new Request(new URL(geminiPath, url), {
+    method: "POST",
+    headers: buildGeminiHeaders(request),
+    body: JSON.stringify(geminiBody),
+    signal: request.signal,
+  }));
+  
+  if (!response.ok) {
+    return await convertGeminiError(response);
+  }
+  // 实际应答的模型（经过模型别名改写或降级后可能与请求的不同），OpenAI 响应中的 model 字段也使用它
+  const servedModel = response.headers.get("X-Proxy-Model") || model;
+  
+  if (stream) {
+    if (!response.body) {
+      return openAIErrorResponse(502, "上游响应为空", "upstream_error");
+    }
+    return new Response(convertGeminiStream(response.body, servedModel, body.stream_options?.include_usage === true), {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache",
+        "Access-Control-Allow-Origin": "*",
+        "X-Proxy-Model": servedModel
       }
     });
   }
+  
+  const data: GeminiResponse = await response.json();
+  return new Response(JSON.stringify(convertGeminiResponse(data, servedModel)), {
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "X-Proxy-Model": servedModel
+    }
+  });
+}
+
+// ===== 访问日志 =====
+
+// 沿用客户端传入的 X-Request-Id，缺失或格式异常时生成新的ID
+function resolveRequestId(request: Request): string {
+  const requestId = request.headers.get("x-request-id");
+  return requestId && /^[\w.:-]{1,128}$/.test(requestId) ? requestId : crypto.randomUUID();
 }
 
+// 把请求ID写入请求头，转发到上游时会一并带上
+function withRequestId(request: Request, requestId: string): Request {
+  const headers = new Headers(request.headers);
+  headers.set("x-request-id", requestId);
+  return new Request(request, { headers });
+}
+
+// 在响应头中返回请求ID，并在响应体传输结束后输出一行访问日志
+function withAccessLog(request: Request, response: Response, requestId: string, startedAt: number): Response {
+  const url = new URL(request.url);
+  const headers = new Headers(response.headers);
+  headers.set("X-Request-Id", requestId);
+  headers.set("Access-Control-Expose-Headers", "X-Request-Id, X-Proxy-Model");
+  
+  const writeAccessLog = (responseBytes: number, outcome: StreamOutcome) => {
+    logger.info("access", {
+      requestId,
+      method: request.method,
+      path: url.pathname,
+      model: extractModelFromPath(url.pathname) || undefined,
+      status: response.status,
+      durationMs: Date.now() - startedAt,
+      requestBytes: Number(request.headers.get("content-length")) || 0,
+      responseBytes,
+      clientIP: getClientIP(request),
+      outcome: outcome === "completed" ? undefined : outcome,
+    });
+  };
+  
+  if (!response.body) {
+    writeAccessLog(0, "completed");
+    return new Response(null, { status: response.status, statusText: response.statusText, headers });
+  }
+  return new Response(observeResponseBody(response.body, writeAccessLog, getExpectedBodyBytes(response.headers)), {
+    status: response.status,
+    statusText: response.statusText,
+    headers
+  });
+}
 
 // 请求处理函数
 async function handleRequest(request: Request): Promise<Response> {
@@ -1137,28 +8310,60 @@ async function handleRequest(request: Request): Promise<Response> {
   const path = url.pathname;
   const method = request.method;
   
-  // 只在调试模式下记录请求信息
-  if (state.isDebugMode) {
-    console.log(`收到请求: ${method} ${path}`);
-  }
-  
   // 处理OPTIONS请求
   if (method === "OPTIONS") {
     return handleOptionsRequest();
   }
   
+  // ===== 登录/登出 =====
+  if (path === "/login" || path === "/logout") {
+    return handleAuthRoute(request, path);
+  }
+  
   // ===== 调试页面 - 提供可视化界面 =====
   if (path === "/debug" || path === "/debug/") {
-    if (state.isDebugMode) {
-      console.log("提供调试界面");
+    if (!await isAdminAuthorized(request)) {
+      return new Response(getLoginHtml(ADMIN_TOKEN ? "" : "未设置 ADMIN_TOKEN，管理功能仅允许从本机直接访问"), {
+        status: 401,
+        headers: { "Content-Type": "text/html; charset=utf-8" }
+      });
     }
+    logger.debug("提供调试界面");
     return new Response(getHtmlIndex(), {
       headers: { "Content-Type": "text/html; charset=utf-8" }
     });
   }
   
+  // ===== 日志详情页面 =====
+  if (path.startsWith("/debug/log/")) {
+    if (!await isAdminAuthorized(request)) {
+      return new Response(getLoginHtml(ADMIN_TOKEN ? "" : "未设置 ADMIN_TOKEN，管理功能仅允许从本机直接访问"), {
+        status: 401,
+        headers: { "Content-Type": "text/html; charset=utf-8" }
+      });
+    }
+    return new Response(getLogDetailHtml(), {
+      headers: { "Content-Type": "text/html; charset=utf-8" }
+    });
+  }
+  
+  // ===== 监控指标（Prometheus 格式），抓取时可使用 Bearer 管理员令牌 =====
+  if (path === "/metrics") {
+    if (!await isAdminAuthorized(request)) {
+      return unauthorizedResponse();
+    }
+    return new Response(renderMetrics(), {
+      headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" }
+    });
+  }
+  
   // ===== API请求处理 =====
   if (path.startsWith("/api/")) {
+    // 所有管理API都需要管理员权限
+    if (!await isAdminAuthorized(request)) {
+      return unauthorizedResponse();
+    }
+    
     // 调试API
     if (path.startsWith("/api/debug/")) {
       return handleDebugApi(request, path);
@@ -1169,11 +8374,89 @@ async function handleRequest(request: Request): Promise<Response> {
       return handleLogsApi(request);
     }
     
+    // 实时日志推送
+    if (path === "/api/logs/stream") {
+      return handleLogStreamApi(request);
+    }
+    
+    // 日志导出和导入
+    if (path === "/api/logs/export") {
+      return handleLogExportApi(request);
+    }
+    if (path === "/api/logs/import") {
+      return handleLogImportApi(request);
+    }
+    
+    // 单条日志和重放API
+    if (path.startsWith("/api/logs/")) {
+      return handleLogDetailApi(request, path);
+    }
+    
     // 代理目标API
     if (path === "/api/proxy/target") {
       return handleProxyTargetApi(request);
     }
     
+    // 路由表API
+    if (path === "/api/proxy/routes") {
+      return handleRoutesApi(request);
+    }
+    
+    // 重试策略API
+    if (path === "/api/proxy/retry") {
+      return handleRetryPolicyApi(request);
+    }
+    
+    // 模型策略API
+    if (path === "/api/proxy/models") {
+      return handleModelPolicyApi(request);
+    }
+    
+    // 降级链API
+    if (path === "/api/proxy/fallback") {
+      return handleFallbackApi(request);
+    }
+    
+    // 改写规则API
+    if (path === "/api/proxy/rewrite" || path === "/api/proxy/rewrite/test") {
+      return handleRewriteRulesApi(request, path);
+    }
+    
+    // 采集规则API
+    if (path === "/api/proxy/capture") {
+      return handleCaptureRulesApi(request);
+    }
+    
+    // 用量统计API
+    if (path === "/api/usage" || path.startsWith("/api/usage/")) {
+      return handleUsageApi(request, path);
+    }
+    
+    // 密钥池API
+    if (path === "/api/keypool") {
+      return handleKeyPoolApi(request);
+    }
+    
+    // 虚拟密钥API
+    if (path === "/api/keys" || path.startsWith("/api/keys/")) {
+      return handleVirtualKeysApi(request, path);
+    }
+    
+    // 日志附件API
+    if (path.startsWith("/api/attachments/")) {
+      return handleAttachmentApi(request, path);
+    }
+    
+    // 响应缓存API
+    if (path === "/api/cache") {
+      return handleCacheApi(request);
+    }
+    
+    // 限流API
+    if (path === "/api/ratelimits" || path.startsWith("/api/ratelimits/")) {
+      return handleRateLimitApi(request, path);
+    }
+    
     // 未找到API路由
     return new Response(JSON.stringify({ error: "未找到API路由" }), {
       status: 404,
@@ -1181,6 +8464,20 @@ async function handleRequest(request: Request): Promise<Response> {
     });
   }
   
+  // ===== 限流 =====
+  const openAI = isOpenAIRequest(request, path);
+  const rateLimited = await checkRateLimit(request, url);
+  if (rateLimited) {
+    logger.warn(`请求超出限额 (${rateLimited.kind}): ${method} ${path}`);
+    incrementMetric(metrics.rateLimited, rateLimited.kind);
+    return rateLimitedResponse(rateLimited, openAI);
+  }
+  
+  // ===== OpenAI 兼容接口 =====
+  if (openAI) {
+    return handleOpenAIRequest(request, path);
+  }
+  
   // ===== 代理请求处理 =====
   return handleProxy(request);
 }
@@ -1193,39 +8490,98 @@ async function initState() {
       const debugState = await kv.get<{isDebugMode: boolean}>(["debugState"]);
       if (debugState?.value) {
         state.isDebugMode = debugState.value.isDebugMode;
-        console.log(`从KV恢复调试状态: isDebugMode=${state.isDebugMode}`);
+        logger.info(`从KV恢复调试状态: isDebugMode=${state.isDebugMode}`);
       }
       
       // 从KV存储中恢复代理目标设置
       const proxyConfig = await kv.get<{targetUrl: string}>(["proxyConfig"]);
       if (proxyConfig?.value?.targetUrl) {
         TARGET_URL = proxyConfig.value.targetUrl;
-        console.log(`从KV恢复代理目标: ${TARGET_URL}`);
+        logger.info(`从KV恢复代理目标: ${TARGET_URL}`);
+      }
+      
+      // 从KV存储中恢复路由表
+      const routesConfig = await kv.get<{routes: ProxyRoute[]}>(["proxyConfig", "routes"]);
+      if (routesConfig?.value?.routes) {
+        state.routes = validateRoutes(routesConfig.value.routes);
+        logger.info(`从KV恢复路由表: ${state.routes.length} 条路由`);
+      }
+      
+      // 从KV存储中恢复重试策略
+      const retryConfig = await kv.get<{policy: RetryPolicy}>(["proxyConfig", "retry"]);
+      if (retryConfig?.value?.policy) {
+        state.retryPolicy = validateRetryPolicy(retryConfig.value.policy);
+        logger.info(`从KV恢复重试策略: 最多尝试 ${state.retryPolicy.maxAttempts} 次`);
+      }
+      
+      // 从KV存储中恢复价格表
+      const pricesConfig = await kv.get<{prices: Record<string, ModelPrice>}>(["proxyConfig", "prices"]);
+      if (pricesConfig?.value?.prices) {
+        state.modelPrices = validateModelPrices(pricesConfig.value.prices);
+      }
+      
+      // 从KV存储中恢复限流配置
+      const rateLimitConfig = await kv.get<{config: RateLimitConfig}>(["proxyConfig", "rateLimits"]);
+      if (rateLimitConfig?.value?.config) {
+        state.rateLimits = validateRateLimitConfig(rateLimitConfig.value.config);
+      }
+      
+      // 从KV存储中恢复模型策略
+      const modelsConfig = await kv.get<{policy: ModelPolicy}>(["proxyConfig", "models"]);
+      if (modelsConfig?.value?.policy) {
+        state.modelPolicy = validateModelPolicy(modelsConfig.value.policy);
+      }
+      
+      // 从KV存储中恢复降级链
+      const fallbackConfig = await kv.get<{chains: Record<string, FallbackHop[]>}>(["proxyConfig", "fallback"]);
+      if (fallbackConfig?.value?.chains) {
+        state.fallbackChains = validateFallbackChains(fallbackConfig.value.chains);
+      }
+      
+      // 从KV存储中恢复改写规则
+      const rewriteConfig = await kv.get<{rules: RewriteRule[]}>(["proxyConfig", "rewrite"]);
+      if (rewriteConfig?.value?.rules) {
+        state.rewriteRules = validateRewriteRules(rewriteConfig.value.rules);
+        logger.info(`从KV恢复改写规则: ${state.rewriteRules.length} 条规则`);
+      }
+      
+      // 从KV存储中恢复采集规则
+      const captureConfig = await kv.get<{rules: CaptureRule[]}>(["proxyConfig", "captureRules"]);
+      if (captureConfig?.value?.rules) {
+        state.captureRules = validateCaptureRules(captureConfig.value.rules);
+        logger.info(`从KV恢复采集规则: ${state.captureRules.length} 条规则`);
       }
     } catch (error) {
-      console.error("从KV恢复状态失败:", error);
+      logger.error("从KV恢复状态失败", { error });
     }
   }
+  
+  await loadKeyPool();
 }
 
 // 初始化状态并启动服务器
 await initState();
 
 // 服务器启动
-if (state.isDebugMode) {
-  console.log(`启动反代服务器，目标: ${TARGET_URL}`);
+if (!ADMIN_TOKEN) {
+  logger.warn("未设置 ADMIN_TOKEN 环境变量，调试页面和管理API仅允许从本机直接访问");
 }
+logger.info(`启动反代服务器，目标: ${TARGET_URL}`, { logLevel: LOG_LEVEL });
 Deno.serve({
   onListen: ({ port }) => {
-    if (state.isDebugMode) {
-      console.log(`服务器监听端口: ${port}`);
-    }
+    logger.info(`服务器监听端口: ${port}`);
   },
-}, async (request: Request) => {
+}, async (request: Request, info: Deno.ServeHandlerInfo) => {
+  const startedAt = Date.now();
+  const requestId = resolveRequestId(request);
+  const trackedRequest = withRequestId(request, requestId);
+  requestRemoteAddrs.set(trackedRequest, info.remoteAddr);
+  let response: Response;
   try {
-    return await handleRequest(request);
+    response = await handleRequest(trackedRequest);
   } catch (error) {
-    console.error(`请求处理出错:`, error);
-    return new Response("Internal Server Error", { status: 500 });
+    logger.error("请求处理出错", { requestId, error });
+    response = new Response("Internal Server Error", { status: 500 });
   }
+  return withAccessLog(request, response, requestId, startedAt);
 });